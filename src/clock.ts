@@ -0,0 +1,94 @@
+export type Clock = {
+  now: () => number,
+  setTimeout: (callback: () => void, ms: number) => unknown,
+  clearTimeout: (timer: unknown) => void,
+};
+
+/**
+ * Tells the time with `Date.now` and waits with the global `setTimeout`. This is the default clock.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (timer) => clearTimeout(timer as number),
+};
+
+export type TestClock = Clock & {
+  /**
+   * Moves time forward by `ms`, firing every timer that becomes due in order.
+   * Resolves once the promises they started have settled as far as they can without more time passing.
+   */
+  advance: (ms: number) => Promise<void>,
+  /**
+   * Moves time forward until no timers are left, resolving with how long that took.
+   */
+  runAll: () => Promise<number>,
+  /**
+   * Number of timers that have not fired yet.
+   */
+  readonly pending: number,
+};
+
+/**
+ * Lets every pending promise callback run, by waiting for a real macrotask.
+ */
+function flush(): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, 0);
+  });
+}
+
+/**
+ * Creates a clock whose time only moves when it is told to, so that timing can be tested instantly.
+ */
+export function createTestClock(start = 0): TestClock {
+  let time = start;
+  let nextId = 1;
+  const timers = new Map<number, { time: number, callback: () => void }>();
+  const getNextTimer = (until: number) => {
+    let next: [number, { time: number, callback: () => void }] | undefined;
+    timers.forEach((timer, id) => {
+      if (timer.time <= until && (!next || timer.time < next[1].time)) {
+        next = [id, timer];
+      }
+    });
+    return next;
+  };
+  const advance = async (ms: number) => {
+    const until = time + ms;
+    await flush();
+    let next = getNextTimer(until);
+    while (next) {
+      const [id, timer] = next;
+      timers.delete(id);
+      time = timer.time;
+      timer.callback();
+      await flush();
+      next = getNextTimer(until);
+    }
+    time = until;
+  };
+  const clock = {
+    now: () => time,
+    setTimeout: (callback: () => void, ms: number) => {
+      const id = nextId++;
+      timers.set(id, { time: time + Math.max(0, ms || 0), callback });
+      return id;
+    },
+    clearTimeout: (timer: unknown) => {
+      timers.delete(timer as number);
+    },
+    advance,
+    runAll: async () => {
+      const from = time;
+      await flush();
+      while (timers.size) {
+        await advance(Math.min(...Array.from(timers.values()).map((timer) => timer.time)) - time);
+      }
+      return time - from;
+    },
+  };
+  return Object.defineProperties(clock, {
+    pending: { get: () => timers.size },
+  }) as TestClock;
+}
@@ -0,0 +1,123 @@
+export type DurationUnit = 'ms' | 's' | 'm' | 'h' | 'd';
+
+/**
+ * A duration such as `'500ms'`, `'90s'` or `'1h30m'`. Longer combinations are accepted at runtime.
+ */
+export type DurationString =
+  | `${number}${DurationUnit}`
+  | `${number}${DurationUnit}${number}${DurationUnit}`
+  | `${number}${DurationUnit}${number}${DurationUnit}${number}${DurationUnit}`;
+
+export type RateUnit = DurationUnit | 'sec' | 'second' | 'min' | 'minute' | 'hr' | 'hour' | 'day';
+
+/**
+ * A rate such as `'100/min'` or `'500/10m'`.
+ */
+export type RateString = `${number}/${RateUnit}` | `${number}/${DurationString}`;
+
+const UNITS: Record<RateUnit, number> = {
+  ms: 1,
+  s: 1000,
+  sec: 1000,
+  second: 1000,
+  m: 60 * 1000,
+  min: 60 * 1000,
+  minute: 60 * 1000,
+  h: 60 * 60 * 1000,
+  hr: 60 * 60 * 1000,
+  hour: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * The units of a duration must appear in this order, each at most once.
+ */
+const DURATION_UNITS: DurationUnit[] = ['d', 'h', 'm', 's', 'ms'];
+
+const DURATION = /^(?:\d+(?:\.\d+)?(?:ms|s|m|h|d))+$/;
+const DURATION_PART = /(\d+(?:\.\d+)?)(ms|s|m|h|d)/g;
+const RATE = /^(\d+)\/(.+)$/;
+
+function getNumber(num: number | string): number {
+  if (typeof num === 'number') {
+    return num;
+  }
+  const numFromStr = Number(num);
+  if (!Number.isFinite(numFromStr)) {
+    throw new Error(`"${num}" is not a valid number.`);
+  }
+  return numFromStr;
+}
+
+export function ms(numMilliseconds: number | string): number {
+  return getNumber(numMilliseconds);
+}
+
+export function seconds(numSeconds: number | string): number {
+  return getNumber(numSeconds) * 1000;
+}
+
+export function minutes(numMinutes: number | string): number {
+  return getNumber(numMinutes) * seconds(60);
+}
+
+export function hours(numHours: number | string): number {
+  return getNumber(numHours) * minutes(60);
+}
+
+export function days(numDays: number | string): number {
+  return getNumber(numDays) * hours(24);
+}
+
+/**
+ * Converts a duration to milliseconds, or returns `undefined` if it is not valid.
+ */
+function getDuration(duration: string): number | undefined {
+  if (!DURATION.test(duration)) {
+    return undefined;
+  }
+  let total = 0;
+  let previousUnit = -1;
+  let valid = true;
+  duration.replace(DURATION_PART, (part, num: string, unit: DurationUnit) => {
+    const unitIndex = DURATION_UNITS.indexOf(unit);
+    valid = valid && unitIndex > previousUnit;
+    previousUnit = unitIndex;
+    total += Number(num) * UNITS[unit];
+    return part;
+  });
+  return valid ? total : undefined;
+}
+
+/**
+ * Converts a duration such as `'1h30m'` to milliseconds.
+ */
+export function parseDuration(duration: DurationString): number {
+  const total = typeof duration === 'string' ? getDuration(duration) : undefined;
+  if (total === undefined) {
+    throw new Error(`"${String(duration)}" is not a valid duration.`);
+  }
+  return total;
+}
+
+/**
+ * Converts a rate such as `'100/min'` or `'500/10m'` to the `maxPerInterval` and `interval` options.
+ */
+export function parseRate(rate: RateString): { maxPerInterval: number, interval: number } {
+  const [, num, per] = RATE.exec(rate) ?? [];
+  if (num === undefined) {
+    throw new Error(`"${rate}" is not a valid rate.`);
+  }
+  if (Object.prototype.hasOwnProperty.call(UNITS, per)) {
+    return { maxPerInterval: Number(num), interval: UNITS[per as RateUnit] };
+  }
+  const interval = getDuration(per);
+  /**
+   * A rate over no time at all would not limit anything.
+   */
+  if (!interval) {
+    throw new Error(`"${rate}" is not a valid rate.`);
+  }
+  return { maxPerInterval: Number(num), interval };
+}
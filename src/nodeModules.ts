@@ -0,0 +1,7 @@
+/**
+ * Imports a Node.js module when it is first needed.
+ * The name is passed through a variable, so that bundlers for other platforms leave the import alone.
+ */
+export function importNodeModule<T>(name: string): Promise<T> {
+  return import(name) as Promise<T>;
+}
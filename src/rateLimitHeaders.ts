@@ -0,0 +1,155 @@
+export type HeadersLike =
+  | { get: (name: string) => string | null }
+  | Record<string, string | string[] | number | null | undefined>;
+
+export type ResponseLike = {
+  headers: HeadersLike,
+};
+
+export type RateLimitInfo = {
+  /**
+   * Duration in milliseconds to wait before retrying, from the `Retry-After` header.
+   */
+  retryAfter: number | null,
+  /**
+   * Max number of requests for the provider's window.
+   */
+  limit: number | null,
+  /**
+   * Number of requests left in the provider's current window.
+   */
+  remaining: number | null,
+  /**
+   * Duration in milliseconds until the provider's current window resets.
+   */
+  resetAfter: number | null,
+  /**
+   * Duration in milliseconds of the provider's window.
+   */
+  window: number | null,
+};
+
+/**
+ * Anything larger is a timestamp in seconds rather than a number of seconds from now.
+ */
+const MAX_DELTA_SECONDS = 1e9;
+
+function getHeader(headers: HeadersLike, name: string): string | null {
+  if (typeof headers.get === 'function') {
+    return (headers as { get: (name: string) => string | null }).get(name);
+  }
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+  const value = key === undefined ? undefined : (headers as Record<string, unknown>)[key];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+function toNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') {
+    return null;
+  }
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Parses the members of a structured header such as `"default";r=50;t=30` or `limit=100, remaining=50, reset=5`.
+ * The bare item of a member, such as `"default"` or `100`, is stored under the empty key.
+ */
+function parseMembers(value: string): Array<Record<string, string>> {
+  return value.split(',').map(
+    (member) => {
+      const params: Record<string, string> = {};
+      member.split(';').forEach(
+        (param, index) => {
+          const [key, paramValue] = param.split('=').map((part) => part.trim().replace(/^"|"$/g, ''));
+          if (paramValue !== undefined) {
+            params[key.toLowerCase()] = paramValue;
+          } else if (!index) {
+            params[''] = key;
+          }
+        },
+      );
+      return params;
+    },
+  );
+}
+
+function parseRetryAfter(value: string | null, now: number): number | null {
+  if (value === null) {
+    return null;
+  }
+  if (/^\s*\d+\s*$/.test(value)) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Reads the rate limit of a response from its `Retry-After`, IETF `RateLimit` and `RateLimit-Policy`,
+ * `RateLimit-*`, and `X-RateLimit-*` headers.
+ */
+export function parseRateLimitHeaders(headers: HeadersLike, now = Date.now()): RateLimitInfo {
+  const info: RateLimitInfo = {
+    retryAfter: parseRetryAfter(getHeader(headers, 'retry-after'), now),
+    limit: null,
+    remaining: null,
+    resetAfter: null,
+    window: null,
+  };
+  let policyName: string | undefined;
+
+  const rateLimit = getHeader(headers, 'ratelimit');
+  if (rateLimit !== null) {
+    const members = parseMembers(rateLimit);
+    if (members.some((member) => 'r' in member)) {
+      /**
+       * Each member is a separate policy, so the one with the least remaining applies.
+       */
+      const [policy] = members
+        .filter((member) => toNumber(member.r) !== null)
+        .sort((a, b) => Number(a.r) - Number(b.r));
+      if (policy) {
+        policyName = policy[''];
+        info.remaining = toNumber(policy.r);
+        const reset = toNumber(policy.t);
+        info.resetAfter = reset === null ? null : reset * 1000;
+      }
+    } else {
+      const fields = Object.assign({}, ...members) as Record<string, string>;
+      info.limit = toNumber(fields.limit);
+      info.remaining = toNumber(fields.remaining);
+      const reset = toNumber(fields.reset);
+      info.resetAfter = reset === null ? null : reset * 1000;
+    }
+  }
+
+  const rateLimitPolicy = getHeader(headers, 'ratelimit-policy');
+  if (rateLimitPolicy !== null) {
+    const members = parseMembers(rateLimitPolicy);
+    const policy = members.find((member) => member[''] === policyName) ?? members[0];
+    info.limit = toNumber(policy.q) ?? toNumber(policy['']) ?? info.limit;
+    const window = toNumber(policy.w);
+    info.window = window === null ? null : window * 1000;
+  }
+
+  info.limit = info.limit
+    ?? toNumber(getHeader(headers, 'ratelimit-limit')?.split(/[,;]/)[0])
+    ?? toNumber(getHeader(headers, 'x-ratelimit-limit'));
+  info.remaining = info.remaining
+    ?? toNumber(getHeader(headers, 'ratelimit-remaining'))
+    ?? toNumber(getHeader(headers, 'x-ratelimit-remaining'));
+
+  if (info.resetAfter === null) {
+    const reset = toNumber(getHeader(headers, 'ratelimit-reset'))
+      ?? toNumber(getHeader(headers, 'x-ratelimit-reset-after'))
+      ?? toNumber(getHeader(headers, 'x-ratelimit-reset'));
+    if (reset !== null) {
+      info.resetAfter = reset > MAX_DELTA_SECONDS ? Math.max(0, reset * 1000 - now) : reset * 1000;
+    }
+  }
+  return info;
+}
@@ -0,0 +1,120 @@
+import { importNodeModule } from './nodeModules';
+
+export type PersistedJob = {
+  id: string,
+  /**
+   * The name of the handler that executes the job.
+   */
+  name: string,
+  state: Record<string, unknown>,
+  options: {
+    priority?: number | string,
+    cost?: number,
+    timeout?: number,
+    maxWait?: number,
+  },
+  /**
+   * The job's remaining retries, so that they carry over when it is restored.
+   */
+  retries: {
+    maxRetries: number,
+    maxRetriesWithPauses: number,
+    attempt: number,
+    previousWait: number,
+  },
+};
+
+export type QueueStorage = {
+  /**
+   * Returns every job that was saved and not removed since, in the order they were first saved.
+   */
+  load: () => Promise<PersistedJob[]>,
+  /**
+   * Saves a new job, or replaces a job with the same id.
+   */
+  save: (job: PersistedJob) => Promise<void>,
+  remove: (id: string) => Promise<void>,
+};
+
+/**
+ * Keeps jobs in memory, so they survive the queue but not the process.
+ */
+export function memoryStorage(): QueueStorage {
+  const jobs = new Map<string, string>();
+  return {
+    load: () => Promise.resolve(Array.from(jobs.values()).map((job) => JSON.parse(job) as PersistedJob)),
+    save: (job) => {
+      jobs.set(job.id, JSON.stringify(job));
+      return Promise.resolve();
+    },
+    remove: (id) => {
+      jobs.delete(id);
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * The subset of `node:fs/promises` used by `fileStorage`.
+ */
+type FileSystem = {
+  readFile: (path: string, encoding: 'utf8') => Promise<string>,
+  writeFile: (path: string, data: string) => Promise<void>,
+  appendFile: (path: string, data: string) => Promise<void>,
+  rename: (oldPath: string, newPath: string) => Promise<void>,
+};
+
+type LogEntry = { type: 'save', job: PersistedJob } | { type: 'remove', id: string };
+
+/**
+ * Appends every change to a file of JSON lines, and compacts it to the remaining jobs when it is loaded.
+ * Only works in Node.js.
+ */
+export function fileStorage(path: string): QueueStorage {
+  let fs: Promise<FileSystem> | undefined;
+  const getFs = () => {
+    fs = fs ?? importNodeModule<FileSystem>('node:fs/promises');
+    return fs;
+  };
+  const append = async (entry: LogEntry) => {
+    await (await getFs()).appendFile(path, `${JSON.stringify(entry)}\n`);
+  };
+  return {
+    load: async () => {
+      const { readFile, writeFile, rename } = await getFs();
+      let log = '';
+      try {
+        log = await readFile(path, 'utf8');
+      } catch (err) {
+        if ((err as { code?: string }).code !== 'ENOENT') {
+          throw err;
+        }
+      }
+      const jobs = new Map<string, PersistedJob>();
+      log.split('\n').forEach((line) => {
+        let entry: LogEntry;
+        try {
+          entry = JSON.parse(line) as LogEntry;
+        } catch {
+          /**
+           * A crash can leave the last line incomplete.
+           */
+          return;
+        }
+        if (entry.type === 'save') {
+          jobs.set(entry.job.id, entry.job);
+        } else {
+          jobs.delete(entry.id);
+        }
+      });
+      const compacted = Array.from(jobs.values())
+        .map((job) => `${JSON.stringify({ type: 'save', job })}\n`)
+        .join('');
+      await writeFile(`${path}.tmp`, compacted);
+      await rename(`${path}.tmp`, path);
+      return Array.from(jobs.values());
+    },
+    save: (job) => append({ type: 'save', job }),
+    remove: (id) => append({ type: 'remove', id }),
+  };
+}
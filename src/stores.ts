@@ -0,0 +1,418 @@
+import { importNodeModule } from './nodeModules';
+
+export type RateLimitStrategy = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export type ThrottleStore = {
+  /**
+   * Uses up `cost` of the budget and returns 0 if it is available.
+   * Otherwise, returns how many milliseconds to wait before trying again.
+   */
+  acquire: (cost: number, now: number) => number,
+  /**
+   * Returns how many milliseconds to wait before `cost` of the budget is available, without using it up.
+   * Stores without it cannot be reliably combined with other stores.
+   */
+  peek?: (cost: number, now: number) => number,
+  /**
+   * Uses up the budget until at most `remaining` is left.
+   */
+  setRemaining: (remaining: number, now: number) => void,
+  /**
+   * When the interval of the last acquisition started.
+   */
+  intervalStart: () => number,
+  /**
+   * Changes `maxPerInterval`, `interval` and `burst`, keeping track of what was already used up.
+   * Stores without it are created again when their limit changes.
+   */
+  configure?: (options: ThrottleStoreOptions) => void,
+};
+
+export type ThrottleStoreOptions = {
+  maxPerInterval: number,
+  interval: number,
+  strategy: RateLimitStrategy,
+  burst: number,
+};
+
+export type ThrottleStoreFactory = (options: ThrottleStoreOptions) => ThrottleStore;
+
+/**
+ * The limit of a store, which can be changed while it is in use.
+ */
+type Limit = Pick<ThrottleStoreOptions, 'maxPerInterval' | 'interval' | 'burst'>;
+
+/**
+ * Allows `maxPerInterval` per interval, starting a new interval once the previous one ends.
+ * Its state lives in `slots`, so that it can be shared.
+ */
+function fixedWindow(limit: Limit, slots: Float64Array): ThrottleStore {
+  const INTERVAL_START = 0;
+  const NUM_PER_INTERVAL = 1;
+  const roll = (now: number) => {
+    const { maxPerInterval, interval } = limit;
+    if (now >= slots[INTERVAL_START] + interval) {
+      /**
+       * Whatever an oversized cost spent beyond its interval's budget is carried over into the following intervals.
+       */
+      const elapsedIntervals = interval ? Math.floor((now - slots[INTERVAL_START]) / interval) : Infinity;
+      slots[NUM_PER_INTERVAL] = slots[NUM_PER_INTERVAL] > maxPerInterval
+        ? Math.max(0, slots[NUM_PER_INTERVAL] - maxPerInterval * elapsedIntervals)
+        : 0;
+      slots[INTERVAL_START] = now;
+    }
+  };
+  const peek = (cost: number, now: number) => {
+    roll(now);
+    const { maxPerInterval, interval } = limit;
+    /**
+     * A cost larger than an entire interval can only be acquired at the beginning of one.
+     */
+    if (slots[NUM_PER_INTERVAL] && slots[NUM_PER_INTERVAL] + cost > maxPerInterval) {
+      return slots[INTERVAL_START] + interval - now;
+    }
+    return 0;
+  };
+  return {
+    acquire: (cost, now) => {
+      const wait = peek(cost, now);
+      if (!wait) {
+        slots[NUM_PER_INTERVAL] += cost;
+      }
+      return wait;
+    },
+    peek,
+    setRemaining: (remaining, now) => {
+      const { maxPerInterval } = limit;
+      /**
+       * An unbounded budget can only be used up entirely.
+       */
+      if (remaining && maxPerInterval === Infinity) {
+        return;
+      }
+      roll(now);
+      slots[NUM_PER_INTERVAL] = Math.max(slots[NUM_PER_INTERVAL], maxPerInterval - remaining);
+    },
+    intervalStart: () => slots[INTERVAL_START],
+  };
+}
+
+/**
+ * Allows `maxPerInterval` within any span of `interval` milliseconds, by remembering recent acquisitions.
+ */
+function slidingWindow(limit: Limit): ThrottleStore {
+  const acquisitions: Array<{ time: number, cost: number }> = [];
+  let used = 0;
+  let lastAcquisition = 0;
+  const forget = (now: number) => {
+    while (acquisitions.length && acquisitions[0].time + limit.interval <= now) {
+      used -= (acquisitions.shift() as { cost: number }).cost;
+    }
+  };
+  const peek = (cost: number, now: number) => {
+    const { maxPerInterval, interval } = limit;
+    if (!interval) {
+      return 0;
+    }
+    forget(now);
+    if (used && used + cost > maxPerInterval) {
+      /**
+       * Wait for enough of the oldest acquisitions to leave the window.
+       */
+      let freed = 0;
+      for (const acquisition of acquisitions) {
+        freed += acquisition.cost;
+        if (!(used - freed) || used - freed + cost <= maxPerInterval) {
+          return acquisition.time + interval - now;
+        }
+      }
+    }
+    return 0;
+  };
+  return {
+    acquire: (cost, now) => {
+      const wait = peek(cost, now);
+      if (wait) {
+        return wait;
+      }
+      lastAcquisition = now;
+      if (limit.interval) {
+        used += cost;
+        acquisitions.push({ time: now, cost });
+      }
+      return 0;
+    },
+    peek,
+    setRemaining: (remaining, now) => {
+      const { maxPerInterval, interval } = limit;
+      forget(now);
+      if (interval && used < maxPerInterval - remaining && maxPerInterval !== Infinity) {
+        acquisitions.push({ time: now, cost: maxPerInterval - remaining - used });
+        used = maxPerInterval - remaining;
+      }
+    },
+    intervalStart: () => lastAcquisition,
+  };
+}
+
+/**
+ * Refills `maxPerInterval` tokens per interval, storing up to `burst` tokens while idle.
+ * Its state lives in `slots`, so that it can be shared.
+ */
+function tokenBucket(limit: Limit, slots: Float64Array): ThrottleStore {
+  /**
+   * Tracking the tokens missing from the bucket rather than the tokens in it means a zeroed state is a full bucket.
+   */
+  const MISSING_TOKENS = 0;
+  const LAST_REFILL = 1;
+  const LAST_ACQUISITION = 2;
+  const getRefillRate = () => (limit.interval ? limit.maxPerInterval / limit.interval : Infinity);
+  const refill = (now: number) => {
+    slots[MISSING_TOKENS] = Math.max(0, slots[MISSING_TOKENS] - (now - slots[LAST_REFILL]) * getRefillRate());
+    slots[LAST_REFILL] = now;
+  };
+  const peek = (cost: number, now: number) => {
+    const refillRate = getRefillRate();
+    const { burst } = limit;
+    if (refillRate === Infinity) {
+      return 0;
+    }
+    refill(now);
+    /**
+     * A cost larger than the bucket can only be acquired from a full bucket, leaving it in debt.
+     */
+    const required = Math.min(cost, burst);
+    const tokens = burst - slots[MISSING_TOKENS];
+    return tokens < required ? Math.ceil((required - tokens) / refillRate) : 0;
+  };
+  return {
+    acquire: (cost, now) => {
+      const wait = peek(cost, now);
+      if (wait) {
+        return wait;
+      }
+      if (getRefillRate() !== Infinity) {
+        slots[MISSING_TOKENS] += cost;
+      }
+      slots[LAST_ACQUISITION] = now;
+      return 0;
+    },
+    peek,
+    setRemaining: (remaining, now) => {
+      if (getRefillRate() !== Infinity) {
+        refill(now);
+        slots[MISSING_TOKENS] = Math.max(slots[MISSING_TOKENS], limit.burst - remaining);
+      }
+    },
+    intervalStart: () => slots[LAST_ACQUISITION],
+  };
+}
+
+const NUM_SLOTS = 3;
+
+function createStore(options: ThrottleStoreOptions, slots: Float64Array): ThrottleStore {
+  const { maxPerInterval, interval, burst } = options;
+  const limit: Limit = { maxPerInterval, interval, burst };
+  let store: ThrottleStore;
+  switch (options.strategy) {
+    case 'fixed-window':
+      store = fixedWindow(limit, slots);
+      break;
+    case 'sliding-window':
+      store = slidingWindow(limit);
+      break;
+    case 'token-bucket':
+      store = tokenBucket(limit, slots);
+      break;
+    default:
+      throw new Error(`"${options.strategy as string}" is not a valid strategy.`);
+  }
+  return {
+    ...store,
+    configure: (newOptions) => {
+      limit.maxPerInterval = newOptions.maxPerInterval;
+      limit.interval = newOptions.interval;
+      limit.burst = newOptions.burst;
+    },
+  };
+}
+
+/**
+ * Keeps the rate limit's state in memory, so it only applies to a single queue. This is the default store.
+ */
+export const memoryStore: ThrottleStoreFactory = (options) => createStore(options, new Float64Array(NUM_SLOTS));
+
+/**
+ * The lock takes up the first 8 bytes, so that the slots after it are aligned.
+ */
+const LOCK_BYTE_LENGTH = 8;
+
+export const SHARED_STORE_BYTE_LENGTH = LOCK_BYTE_LENGTH + NUM_SLOTS * Float64Array.BYTES_PER_ELEMENT;
+
+/**
+ * Creates the memory to pass to `sharedMemoryStore`, e.g. through a worker's `workerData`.
+ */
+export function createSharedStoreBuffer(): SharedArrayBuffer {
+  return new SharedArrayBuffer(SHARED_STORE_BYTE_LENGTH);
+}
+
+type WithLock = <T>(fn: () => T) => T;
+
+/**
+ * The buffer or file that each shared store factory keeps its state in.
+ */
+const sharedResources = new WeakMap<ThrottleStoreFactory, SharedArrayBuffer | string>();
+
+/**
+ * Returns the buffer or file the factory's stores keep their state in, if they share it.
+ */
+export function getSharedResource(factory: ThrottleStoreFactory): SharedArrayBuffer | string | undefined {
+  return sharedResources.get(factory);
+}
+
+/**
+ * Creates a store whose `slots` are shared with other queues, and only used while holding the lock.
+ */
+function createSharedStore(options: ThrottleStoreOptions, slots: Float64Array, withLock: WithLock): ThrottleStore {
+  if (options.strategy === 'sliding-window') {
+    throw new Error('The "sliding-window" strategy cannot be shared.');
+  }
+  const store = createStore(options, slots);
+  let lastIntervalStart = 0;
+  return {
+    acquire: (cost, now) => withLock(() => {
+      const wait = store.acquire(cost, now);
+      lastIntervalStart = store.intervalStart();
+      return wait;
+    }),
+    peek: (cost, now) => withLock(() => (store.peek as (cost: number, now: number) => number)(cost, now)),
+    setRemaining: (remaining, now) => withLock(() => store.setRemaining(remaining, now)),
+    intervalStart: () => lastIntervalStart,
+    configure: store.configure,
+  };
+}
+
+/**
+ * Keeps the rate limit's state in shared memory, so that every queue using the same buffer shares one limit,
+ * even across worker threads.
+ */
+export function sharedMemoryStore(buffer: SharedArrayBuffer): ThrottleStoreFactory {
+  if (buffer.byteLength < SHARED_STORE_BYTE_LENGTH) {
+    throw new Error(`The shared buffer must be at least ${SHARED_STORE_BYTE_LENGTH} bytes.`);
+  }
+  const lock = new Int32Array(buffer, 0, 1);
+  const slots = new Float64Array(buffer, LOCK_BYTE_LENGTH, NUM_SLOTS);
+  const withLock: WithLock = (fn) => {
+    while (Atomics.compareExchange(lock, 0, 0, 1) !== 0) {
+      /**
+       * The critical section is tiny, so spinning is cheaper than waiting.
+       */
+    }
+    try {
+      return fn();
+    } finally {
+      Atomics.store(lock, 0, 0);
+    }
+  };
+  const factory: ThrottleStoreFactory = (options) => createSharedStore(options, slots, withLock);
+  sharedResources.set(factory, buffer);
+  return factory;
+}
+
+/**
+ * The subset of `node:fs` used by `fileStore`.
+ */
+type SyncFileSystem = {
+  openSync: (path: string, flags: string) => number,
+  closeSync: (fd: number) => void,
+  readFileSync: (path: string) => Uint8Array,
+  writeFileSync: (path: string, data: Uint8Array) => void,
+  statSync: (path: string) => { mtimeMs: number },
+  unlinkSync: (path: string) => void,
+};
+
+/**
+ * A lock older than this was left behind by a process that crashed while holding it.
+ */
+const STALE_LOCK_TIMEOUT = 1000;
+
+/**
+ * Keeps the rate limit's state in a file, guarded by a lock file next to it, so that every queue using the same path
+ * shares one limit, even across processes on the same machine. Only works in Node.js.
+ * Resolves once `node:fs` has been imported, since the store uses it synchronously.
+ */
+export async function fileStore(path: string): Promise<ThrottleStoreFactory> {
+  const fs = await importNodeModule<SyncFileSystem>('node:fs');
+  const lockPath = `${path}.lock`;
+  const slots = new Float64Array(NUM_SLOTS);
+  const bytes = new Uint8Array(slots.buffer);
+  const lock = () => {
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lockPath, 'wx'));
+        return;
+      } catch (err) {
+        if ((err as { code?: string }).code !== 'EEXIST') {
+          throw err;
+        }
+      }
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_TIMEOUT) {
+          fs.unlinkSync(lockPath);
+        }
+      } catch {
+        /**
+         * The lock was released in the meantime.
+         */
+      }
+    }
+  };
+  const withLock: WithLock = (fn) => {
+    lock();
+    try {
+      bytes.fill(0);
+      try {
+        bytes.set(fs.readFileSync(path).subarray(0, bytes.length));
+      } catch (err) {
+        if ((err as { code?: string }).code !== 'ENOENT') {
+          throw err;
+        }
+      }
+      const result = fn();
+      fs.writeFileSync(path, bytes);
+      return result;
+    } finally {
+      fs.unlinkSync(lockPath);
+    }
+  };
+  const factory: ThrottleStoreFactory = (options) => createSharedStore(options, slots, withLock);
+  sharedResources.set(factory, path);
+  return factory;
+}
+
+/**
+ * Combines stores so that the budget is only used up once every one of them can afford it.
+ * `setRemaining` and `intervalStart` only apply to the first store.
+ */
+export function combineStores(stores: ThrottleStore[]): ThrottleStore {
+  const [first] = stores;
+  const peek = (cost: number, now: number) => Math.max(0, ...stores.map((store) => store.peek?.(cost, now) ?? 0));
+  return {
+    acquire: (cost, now) => {
+      const wait = peek(cost, now);
+      if (wait) {
+        return wait;
+      }
+      for (const store of stores) {
+        const storeWait = store.acquire(cost, now);
+        if (storeWait) {
+          return storeWait;
+        }
+      }
+      return 0;
+    },
+    peek,
+    setRemaining: (remaining, now) => first.setRemaining(remaining, now),
+    intervalStart: () => first.intervalStart(),
+  };
+}
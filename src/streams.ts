@@ -0,0 +1,278 @@
+import { importNodeModule } from './nodeModules';
+
+export type StreamOptions = {
+  /**
+   * Produce results in the same order as their items, rather than as soon as they are ready. Defaults to `true`.
+   */
+  ordered?: boolean,
+  /**
+   * Max number of items taken from the source whose results have not been passed on yet. Defaults to 16.
+   */
+  highWaterMark?: number,
+  /**
+   * Aborting this signal drops every item still waiting in the queue, which fails the stream.
+   */
+  signal?: AbortSignal,
+};
+
+/**
+ * Enqueues one item, resolving with its result.
+ */
+export type StreamRunner<T, R> = (item: T, signal: AbortSignal) => Promise<R>;
+
+/**
+ * The subset of a Node.js `Transform` stream in object mode that can be used without Node.js types.
+ */
+export type NodeTransform = {
+  write: (chunk: unknown, callback?: (err?: Error | null) => void) => boolean,
+  end: (callback?: () => void) => unknown,
+  destroy: (err?: Error) => unknown,
+  on: (event: string, listener: (...args: unknown[]) => void) => unknown,
+  pipe: <Destination>(destination: Destination) => Destination,
+  [Symbol.asyncIterator]: () => AsyncIterator<unknown>,
+};
+
+type NodeTransformWithPush = NodeTransform & { push: (chunk: unknown) => boolean };
+
+type NodeTransformOptions = {
+  objectMode: boolean,
+  highWaterMark: number,
+  construct: (this: NodeTransformWithPush, callback: () => void) => void,
+  transform: (chunk: unknown, encoding: string, callback: (err?: Error | null) => void) => void,
+  flush: (callback: (err?: Error | null) => void) => void,
+  destroy: (err: Error | null, callback: (err: Error | null) => void) => void,
+};
+
+/**
+ * Items whose results have not been passed on yet.
+ */
+type Window<T> = {
+  add: (item: T) => void,
+  /**
+   * Resolves once fewer than `size` items are in the window, or the window has failed.
+   */
+  whenBelow: (size: number) => Promise<void>,
+  abort: (reason?: unknown) => void,
+  readonly size: number,
+};
+
+const DEFAULT_HIGH_WATER_MARK = 16;
+
+function createWindow<T, R>(
+  run: StreamRunner<T, R>,
+  options: StreamOptions,
+  onResult: (result: R) => void,
+  onError: (err: unknown) => void,
+): Window<T> {
+  const { ordered = true, signal } = options;
+  const controller = new AbortController();
+  const entries: Array<{ settled: boolean, result?: R }> = [];
+  let failed = false;
+  let listeners: Array<() => void> = [];
+  const notify = () => {
+    listeners.forEach((listener) => listener());
+    listeners = [];
+  };
+  const abort = (reason?: unknown) => {
+    failed = true;
+    controller.abort(reason);
+    notify();
+  };
+  signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  const window = {
+    add: (item: T) => {
+      const entry: { settled: boolean, result?: R } = { settled: false };
+      entries.push(entry);
+      run(item, controller.signal).then(
+        (result) => {
+          if (failed) {
+            return;
+          }
+          if (ordered) {
+            entry.settled = true;
+            entry.result = result;
+            while (entries.length && entries[0].settled) {
+              onResult((entries.shift() as { result: R }).result);
+            }
+          } else {
+            entries.splice(entries.indexOf(entry), 1);
+            onResult(result);
+          }
+          notify();
+        },
+        (err) => {
+          if (!failed) {
+            /**
+             * The first failure fails the whole stream, so the items still waiting in the queue are dropped.
+             */
+            abort(err);
+            onError(err);
+          }
+        },
+      );
+    },
+    whenBelow: (size: number) => new Promise<void>((resolve) => {
+      const check = () => {
+        if (failed || entries.length < size) {
+          resolve();
+        } else {
+          listeners.push(check);
+        }
+      };
+      check();
+    }),
+    abort,
+  };
+  return Object.defineProperties(window, {
+    size: { get: () => entries.length },
+  }) as Window<T>;
+}
+
+function getIterator<T>(source: Iterable<T> | AsyncIterable<T>): Iterator<T> | AsyncIterator<T> {
+  return Symbol.asyncIterator in source ? source[Symbol.asyncIterator]() : source[Symbol.iterator]();
+}
+
+/**
+ * Runs every item of the source, only taking the next item once the window and the queue have room for it.
+ */
+export async function* mapIterable<T, R>(
+  source: Iterable<T> | AsyncIterable<T>,
+  run: StreamRunner<T, R>,
+  waitForSpace: () => Promise<void>,
+  options: StreamOptions = {},
+): AsyncGenerator<R, void, undefined> {
+  const { highWaterMark = DEFAULT_HIGH_WATER_MARK } = options;
+  const results: R[] = [];
+  let error: { err: unknown } | undefined;
+  let wake = () => {};
+  const window = createWindow(
+    run,
+    options,
+    (result) => {
+      results.push(result);
+      wake();
+    },
+    (err) => {
+      error = error ?? { err };
+      wake();
+    },
+  );
+  const iterator = getIterator(source);
+  let done = false;
+  let pulling = false;
+  const pull = async () => {
+    pulling = true;
+    try {
+      const next = await iterator.next();
+      if (next.done) {
+        done = true;
+      } else {
+        await waitForSpace();
+        window.add(next.value);
+      }
+    } catch (err) {
+      done = true;
+      error = error ?? { err };
+    }
+    pulling = false;
+    wake();
+  };
+  try {
+    for (;;) {
+      if (error) {
+        throw error.err;
+      }
+      if (results.length) {
+        yield results.shift() as R;
+      } else if (done && !pulling && !window.size) {
+        return;
+      } else {
+        if (!done && !pulling && window.size + results.length < highWaterMark) {
+          void pull();
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    }
+  } finally {
+    window.abort();
+    if (!done) {
+      await iterator.return?.();
+    }
+  }
+}
+
+/**
+ * Creates a WHATWG `TransformStream` that runs every chunk through the queue.
+ */
+export function createTransformStream<T, R>(
+  run: StreamRunner<T, R>,
+  waitForSpace: () => Promise<void>,
+  options: StreamOptions = {},
+): TransformStream<T, R> {
+  const { highWaterMark = DEFAULT_HIGH_WATER_MARK } = options;
+  let window: Window<T> | undefined;
+  return new TransformStream<T, R>({
+    start: (controller) => {
+      window = createWindow(
+        run,
+        options,
+        (result) => controller.enqueue(result),
+        (err) => controller.error(err),
+      );
+    },
+    transform: async (chunk) => {
+      const { whenBelow, add } = window as Window<T>;
+      await whenBelow(highWaterMark);
+      await waitForSpace();
+      add(chunk);
+    },
+    flush: () => (window as Window<T>).whenBelow(1),
+  });
+}
+
+/**
+ * Creates a Node.js `Transform` stream in object mode that runs every chunk through the queue.
+ * Resolves once `node:stream` has been imported, so that it is only needed when used.
+ */
+export async function createNodeTransform<T, R>(
+  run: StreamRunner<T, R>,
+  waitForSpace: () => Promise<void>,
+  options: StreamOptions = {},
+): Promise<NodeTransform> {
+  const { highWaterMark = DEFAULT_HIGH_WATER_MARK } = options;
+  const { Transform } = await importNodeModule<{
+    Transform: new (transformOptions: NodeTransformOptions) => NodeTransformWithPush,
+  }>('node:stream');
+  let window: Window<T> | undefined;
+  return new Transform({
+    objectMode: true,
+    highWaterMark,
+    construct(callback) {
+      window = createWindow(
+        run,
+        options,
+        (result) => this.push(result),
+        (err) => this.destroy(err as Error),
+      );
+      callback();
+    },
+    transform: (chunk, encoding, callback) => {
+      const { whenBelow, add } = window as Window<T>;
+      whenBelow(highWaterMark)
+        .then(waitForSpace)
+        .then(() => {
+          add(chunk as T);
+          callback();
+        }, callback);
+    },
+    flush: (callback) => {
+      (window as Window<T>).whenBelow(1).then(() => callback(), callback);
+    },
+    destroy: (err, callback) => {
+      window?.abort(err);
+      callback(err);
+    },
+  });
+}
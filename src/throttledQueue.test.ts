@@ -1,4 +1,34 @@
-import { throttledQueue, DEFAULT_WAIT, DEFAULT_RETRY_LIMIT, RetryError } from './throttledQueue';
+import {
+  throttledQueue,
+  keyedThrottledQueue,
+  persistentThrottledQueue,
+  batchedThrottledQueue,
+  throttledFunction,
+  memoryStorage,
+  fileStorage,
+  createTestClock,
+  seconds,
+  minutes,
+  hours,
+  days,
+  ms as milliseconds,
+  parseDuration,
+  parseRate,
+  DEFAULT_WAIT,
+  DEFAULT_RETRY_LIMIT,
+  RetryError,
+  AbortError,
+  QueueFullError,
+  TimeoutError,
+  QueueWaitTimeoutError,
+  CircuitOpenError,
+  createSharedStoreBuffer,
+  memoryStore,
+  sharedMemoryStore,
+  fileStore,
+  parseRateLimitHeaders,
+} from './throttledQueue';
+import type { DurationString, RateString, RetryAttempt } from './throttledQueue';
 import { describe, expect, it } from 'vitest';
 
 describe.concurrent('throttled-queue', () => {
@@ -479,4 +509,2290 @@ describe.concurrent('throttled-queue', () => {
       });
 
   });
+
+  describe.concurrent('cancellation', () => {
+
+    it('rejects immediately when the signal is already aborted', async () => {
+      const throttle = throttledQueue();
+      const controller = new AbortController();
+      controller.abort();
+      let executed = false;
+      await expect(throttle(() => {
+        executed = true;
+      }, {}, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+      expect(executed).toEqual(false);
+    });
+
+    it('removes an aborted fn from the queue and frees its slot', async () => {
+      const interval = 500;
+      const throttle = throttledQueue({ maxPerInterval: 1, interval });
+      const controller = new AbortController();
+      const executed: number[] = [];
+      const now = Date.now();
+      const first = throttle(() => executed.push(1));
+      const aborted = throttle(() => executed.push(2), {}, { signal: controller.signal });
+      const last = throttle(() => Date.now());
+      controller.abort('no longer needed');
+
+      await expect(aborted).rejects.toEqual(new AbortError('no longer needed'));
+      await first;
+      const lastStartedAt = await last;
+      expect(executed).toEqual([1]);
+      expect(lastStartedAt - now).toBeGreaterThanOrEqual(interval);
+      expect(lastStartedAt - now).toBeLessThan(interval * 2);
+    });
+
+    it('cancels a pending retry wait', async () => {
+      const throttle = throttledQueue();
+      const controller = new AbortController();
+      let tries = 0;
+      const now = Date.now();
+      const promise = throttle(() => {
+        tries++;
+        throw new RetryError({ retryAfter: DEFAULT_WAIT * 10 });
+      }, {}, { signal: controller.signal });
+      setTimeout(() => controller.abort(), DEFAULT_WAIT / 2);
+
+      await expect(promise).rejects.toBeInstanceOf(AbortError);
+      expect(Date.now() - now).toBeLessThan(DEFAULT_WAIT * 10);
+      expect(tries).toEqual(1);
+    });
+
+    it('does not retry a fn once its signal is aborted', async () => {
+      const throttle = throttledQueue();
+      const controller = new AbortController();
+      let tries = 0;
+      const promise = throttle(() => {
+        tries++;
+        controller.abort();
+        throw new RetryError({ pauseQueue: true, retryAfter: DEFAULT_WAIT / 2 });
+      }, {}, { signal: controller.signal });
+
+      await expect(promise).rejects.toBeInstanceOf(AbortError);
+      expect(tries).toEqual(1);
+    });
+  });
+  describe.concurrent('queue controls', () => {
+
+    it('can pause and resume the queue', async () => {
+      const throttle = throttledQueue();
+      const executed: number[] = [];
+      throttle.pause();
+      const promises = [1, 2, 3].map((number) => throttle(() => executed.push(number)));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(executed).toEqual([]);
+      expect(throttle.size).toEqual(3);
+      expect(throttle.pending).toEqual(3);
+
+      throttle.resume();
+      await Promise.all(promises);
+      expect(executed).toEqual([1, 2, 3]);
+      expect(throttle.size).toEqual(0);
+      expect(throttle.pending).toEqual(0);
+    });
+
+    it('rejects queued fns when cleared, but not in-flight fns', async () => {
+      const throttle = throttledQueue({ maxPerInterval: 1, interval: 1000 });
+      const first = throttle(() => new Promise((resolve) => setTimeout(() => resolve(1), 100)));
+      const queued = [2, 3].map((number) => throttle(() => number));
+      expect(throttle.inFlight).toEqual(1);
+      expect(throttle.size).toEqual(2);
+
+      throttle.clear('shutting down');
+      const results = await Promise.allSettled(queued);
+      expect(results).toEqual(
+        queued.map(() => ({ status: 'rejected', reason: new AbortError('shutting down') })),
+      );
+      expect(throttle.size).toEqual(0);
+      expect(await first).toEqual(1);
+    });
+
+    it('resolves onEmpty once the queue is drained, and onIdle once everything has settled', async () => {
+      const interval = 200;
+      const throttle = throttledQueue({ maxPerInterval: 1, interval });
+      const executionTime = 1000;
+      const settled: number[] = [];
+      [1, 2, 3].forEach((number) => {
+        void throttle(async ({ state }) => {
+          if (number === 3 && !state.retried) {
+            state.retried = true;
+            throw new RetryError({ retryAfter: 100 });
+          }
+          await new Promise((resolve) => setTimeout(resolve, executionTime));
+          settled.push(number);
+        }, { retried: false });
+      });
+
+      await throttle.onEmpty();
+      expect(throttle.size).toEqual(0);
+      expect(settled).toEqual([]);
+
+      await throttle.onIdle();
+      expect(settled).toEqual([1, 2, 3]);
+      expect(throttle.pending).toEqual(0);
+      expect(throttle.inFlight).toEqual(0);
+      await throttle.onIdle();
+    });
+  });
+  describe.concurrent('concurrency', () => {
+
+    it('limits the number of in-flight executions', async () => {
+      const maxConcurrent = 2;
+      const throttle = throttledQueue({ maxConcurrent });
+      let concurrent = 0;
+      let maxSeen = 0;
+      const numbers = [1, 2, 3, 4, 5, 6];
+      const results = await Promise.all(
+        numbers.map(
+          (number) => throttle(async () => {
+            concurrent++;
+            maxSeen = Math.max(maxSeen, concurrent);
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            concurrent--;
+            return number;
+          }),
+        ),
+      );
+      expect(results).toEqual(numbers);
+      expect(maxSeen).toEqual(maxConcurrent);
+    });
+
+    it('honors both the concurrency limit and the interval', async () => {
+      const maxPerInterval = 3;
+      const interval = 500;
+      const throttle = throttledQueue({ maxPerInterval, interval, maxConcurrent: 1 });
+      let concurrent = 0;
+      const intervalStarts = new Map<number, number>();
+      await Promise.all(
+        Array.from({ length: 7 }).map(
+          () => throttle(async ({ intervalStart }) => {
+            concurrent++;
+            if (concurrent > 1) {
+              throw new Error(`Got ${concurrent} concurrent executions, expected 1.`);
+            }
+            intervalStarts.set(intervalStart, (intervalStarts.get(intervalStart) ?? 0) + 1);
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            concurrent--;
+          }),
+        ),
+      );
+      expect(Array.from(intervalStarts.values())).toEqual([3, 3, 1]);
+    });
+
+    it('releases the concurrency slot of an execution that is retried', async () => {
+      const throttle = throttledQueue({ maxConcurrent: 1 });
+      const executed: number[] = [];
+      const results = await Promise.all([
+        throttle(({ state }) => {
+          executed.push(1);
+          if (!state.retried) {
+            state.retried = true;
+            throw new RetryError({ retryAfter: 100 });
+          }
+          return 1;
+        }, { retried: false }),
+        throttle(() => {
+          executed.push(2);
+          return 2;
+        }),
+      ]);
+      expect(results).toEqual([1, 2]);
+      expect(executed).toEqual([1, 2, 1]);
+    });
+  });
+  describe.concurrent('priorities', () => {
+
+    it('executes queued fns with a higher priority first', async () => {
+      const throttle = throttledQueue({ lanes: { interactive: 10, background: -10 } });
+      const executed: string[] = [];
+      throttle.pause();
+      const promises = [
+        throttle(() => executed.push('background'), {}, { priority: 'background' }),
+        throttle(() => executed.push('default')),
+        throttle(() => executed.push('high'), {}, { priority: 5 }),
+        throttle(() => executed.push('interactive'), {}, { priority: 'interactive' }),
+        throttle(() => executed.push('default again')),
+      ];
+      throttle.resume();
+      await Promise.all(promises);
+      expect(executed).toEqual(['interactive', 'high', 'default', 'default again', 'background']);
+    });
+
+    it('rejects unknown lanes', async () => {
+      const throttle = throttledQueue({ lanes: { interactive: 10 } });
+      await expect(throttle(() => 1, {}, { priority: 'urgent' })).rejects.toEqual(
+        new Error('"urgent" is not a known lane.'),
+      );
+    });
+
+    it('raises the priority of fns that have been waiting, so they do not starve', async () => {
+      const throttle = throttledQueue({ priorityAging: 10 });
+      const executed: string[] = [];
+      throttle.pause();
+      const promises = [throttle(() => executed.push('old'))];
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      promises.push(throttle(() => executed.push('new'), {}, { priority: 5 }));
+      throttle.resume();
+      await Promise.all(promises);
+      expect(executed).toEqual(['old', 'new']);
+    });
+
+    it('keeps the priority of retried fns', async () => {
+      const throttle = throttledQueue({ maxConcurrent: 1 });
+      const executed: string[] = [];
+      throttle.pause();
+      const promises = [
+        throttle(({ state }) => {
+          executed.push('high');
+          if (!state.retried) {
+            state.retried = true;
+            throw new RetryError({ retryAfter: 50 });
+          }
+        }, { retried: false }, { priority: 10 }),
+        throttle(async () => {
+          executed.push('first');
+          await new Promise((resolve) => setTimeout(resolve, 100));
+        }),
+        throttle(() => executed.push('second')),
+      ];
+      throttle.resume();
+      await Promise.all(promises);
+      expect(executed).toEqual(['high', 'first', 'high', 'second']);
+    });
+  });
+  describe.concurrent('costs', () => {
+
+    it('consumes the interval budget by cost', async () => {
+      const maxPerInterval = 10;
+      const interval = 500;
+      const throttle = throttledQueue({ maxPerInterval, interval });
+      const costs = [6, 4, 5, 5, 10];
+      const intervalStarts = await Promise.all(
+        costs.map(
+          (cost) => throttle(({ intervalStart }) => intervalStart, {}, { cost }),
+        ),
+      );
+      const costPerInterval = new Map<number, number>();
+      intervalStarts.forEach((intervalStart, x) => {
+        costPerInterval.set(intervalStart, (costPerInterval.get(intervalStart) ?? 0) + costs[x]);
+      });
+      expect(Array.from(costPerInterval.values())).toEqual([10, 10, 10]);
+    });
+
+    it('accepts a cost computed from the state', async () => {
+      const throttle = throttledQueue({ maxPerInterval: 10, interval: 500 });
+      const intervalStarts = await Promise.all(
+        [{ tokens: 8 }, { tokens: 8 }].map(
+          (state) => throttle(({ intervalStart }) => intervalStart, state, { cost: ({ tokens }) => tokens }),
+        ),
+      );
+      expect(intervalStarts[1] - intervalStarts[0]).toBeGreaterThanOrEqual(500);
+    });
+
+    it('carries over the cost of a fn that exceeds the whole interval budget', async () => {
+      const maxPerInterval = 5;
+      const interval = 500;
+      const throttle = throttledQueue({ maxPerInterval, interval });
+      const now = Date.now();
+      const [oversized, next] = await Promise.all([
+        throttle(({ intervalStart }) => intervalStart, {}, { cost: 12 }),
+        throttle(({ intervalStart }) => intervalStart, {}, { cost: 1 }),
+      ]);
+      expect(oversized - now).toBeLessThan(interval);
+      expect(next - oversized).toBeGreaterThanOrEqual(interval * 2);
+    });
+
+    it('rejects costs that are not positive', async () => {
+      const throttle = throttledQueue();
+      await expect(throttle(() => 1, {}, { cost: 0 })).rejects.toEqual(new Error('"cost" must be positive.'));
+    });
+  });
+  describe.concurrent('strategies', () => {
+
+    it('should queue the fn and honor the interval across any span of time with a sliding window', async () => {
+      const maxPerInterval = 5;
+      const interval = 1000;
+      const throttle = throttledQueue({ maxPerInterval, interval, strategy: 'sliding-window' });
+      const requestLimit = 20;
+      const intervalStarts: number[] = [];
+
+      await Promise.all(
+        Array.from({ length: requestLimit }).map(
+          () => throttle(({ intervalStart }) => {
+            intervalStarts.push(intervalStart);
+          }),
+        ),
+      );
+      expect(intervalStarts.length).toEqual(requestLimit);
+      intervalStarts.forEach((intervalStart) => {
+        const inInterval = intervalStarts.filter(
+          (start) => start >= intervalStart && start < intervalStart + interval,
+        ).length;
+        if (inInterval > maxPerInterval) {
+          throw new Error(`Got ${inInterval} requests per interval, expected ${maxPerInterval}.`);
+        }
+      });
+    });
+
+    it('should queue the fn and honor the refill rate and burst with a token bucket', async () => {
+      const maxPerInterval = 5;
+      const interval = 1000;
+      const burst = 2;
+      const throttle = throttledQueue({ maxPerInterval, interval, burst, strategy: 'token-bucket' });
+      const requestLimit = 12;
+      const intervalStarts: number[] = [];
+      const now = Date.now();
+
+      await Promise.all(
+        Array.from({ length: requestLimit }).map(
+          () => throttle(({ intervalStart }) => {
+            intervalStarts.push(intervalStart);
+          }),
+        ),
+      );
+      const totalExecutionTime = Date.now() - now;
+      expect(intervalStarts[1] - intervalStarts[0]).toBeLessThan(interval / maxPerInterval);
+      expect(intervalStarts[2] - intervalStarts[0]).toBeGreaterThanOrEqual(interval / maxPerInterval);
+      expect(totalExecutionTime).toBeGreaterThanOrEqual((requestLimit - burst) * (interval / maxPerInterval) - 10);
+      intervalStarts.forEach((intervalStart) => {
+        const inInterval = intervalStarts.filter(
+          (start) => start >= intervalStart && start < intervalStart + interval,
+        ).length;
+        if (inInterval > maxPerInterval + burst) {
+          throw new Error(`Got ${inInterval} requests per interval, expected ${maxPerInterval + burst}.`);
+        }
+      });
+    });
+
+    it('enables the queue to pause executions with a token bucket', async () => {
+      const waitTime = DEFAULT_WAIT / 2;
+      const throttle = throttledQueue({ maxPerInterval: 10, interval: 1000, strategy: 'token-bucket' });
+      const now = Date.now();
+      const startTimes = await Promise.all([
+        throttle(({ state }) => {
+          if (!state.retried) {
+            state.retried = true;
+            throw new RetryError({ pauseQueue: true, retryAfter: waitTime });
+          }
+          return Date.now();
+        }, { retried: false }),
+        new Promise((resolve) => setTimeout(resolve, 0)).then(() => throttle(() => Date.now())),
+      ]);
+      startTimes.forEach((startTime) => expect(startTime - now).toBeGreaterThanOrEqual(waitTime));
+    });
+
+    it('rejects unknown strategies', () => {
+      expect(() => throttledQueue({ strategy: 'leaky-bucket' as 'token-bucket' })).toThrow(
+        '"leaky-bucket" is not a valid strategy.',
+      );
+    });
+  });
+  describe.concurrent('stores', () => {
+
+    it('shares one limit between queues using the same shared memory', async () => {
+      const maxPerInterval = 2;
+      const interval = 500;
+      const store = sharedMemoryStore(createSharedStoreBuffer());
+      const throttles = [
+        throttledQueue({ maxPerInterval, interval, store }),
+        throttledQueue({ maxPerInterval, interval, store }),
+      ];
+      const intervalStarts: number[] = [];
+      const now = Date.now();
+
+      await Promise.all(
+        throttles.flatMap(
+          (throttle) => Array.from({ length: 4 }).map(
+            () => throttle(({ intervalStart }) => {
+              intervalStarts.push(intervalStart);
+            }),
+          ),
+        ),
+      );
+      const totalExecutionTime = Date.now() - now;
+      expect(totalExecutionTime).toBeGreaterThanOrEqual(interval * 3);
+      intervalStarts.forEach((intervalStart) => {
+        const inInterval = intervalStarts.filter((start) => start === intervalStart).length;
+        if (inInterval > maxPerInterval) {
+          throw new Error(`Got ${inInterval} requests per interval, expected ${maxPerInterval}.`);
+        }
+      });
+    });
+
+    it('shares one token bucket between queues using the same shared memory', async () => {
+      const store = sharedMemoryStore(createSharedStoreBuffer());
+      const options = {
+        maxPerInterval: 10,
+        interval: 1000,
+        burst: 1,
+        strategy: 'token-bucket' as const,
+        store,
+      };
+      const first = throttledQueue(options);
+      const second = throttledQueue(options);
+      const [firstStart, secondStart] = await Promise.all([
+        first(() => Date.now()),
+        second(() => Date.now()),
+      ]);
+      expect(secondStart - firstStart).toBeGreaterThanOrEqual(90);
+    });
+
+    it('does not share sliding windows', () => {
+      const store = sharedMemoryStore(createSharedStoreBuffer());
+      expect(() => throttledQueue({ strategy: 'sliding-window', store })).toThrow(
+        'The "sliding-window" strategy cannot be shared.',
+      );
+    });
+
+    it('requires a separate shared store for each limit', () => {
+      const buffer = createSharedStoreBuffer();
+      const limits = [{ maxPerInterval: 2, interval: 1000 }, { maxPerInterval: 3, interval: 10000 }];
+      const error = 'A shared "store" cannot be used by more than one of the "limits".';
+      expect(() => throttledQueue({ limits, store: sharedMemoryStore(buffer) })).toThrow(error);
+      expect(() => throttledQueue({
+        limits: limits.map((limit) => ({ ...limit, store: sharedMemoryStore(buffer) })),
+      })).toThrow(error);
+      expect(() => throttledQueue({
+        limits: [{ ...limits[0], store: sharedMemoryStore(buffer) }, limits[1]],
+      })).not.toThrow();
+    });
+
+    it('shares one limit between queues using the same file', async () => {
+      const fsModule = 'node:fs/promises';
+      const fs = await import(fsModule) as {
+        readdir: (path: string) => Promise<string[]>,
+        rm: (path: string, options: { force: boolean }) => Promise<void>,
+      };
+      const path = `.throttled-queue-test-${Math.random().toString(36).slice(2)}.limit`;
+      try {
+        const clock = createTestClock();
+        const throttles = [
+          throttledQueue({
+            maxPerInterval: 2, interval: 1000, clock, store: await fileStore(path),
+          }),
+          throttledQueue({
+            maxPerInterval: 2, interval: 1000, clock, store: await fileStore(path),
+          }),
+        ];
+        const promise = Promise.all(throttles.flatMap(
+          (throttle) => [1, 2, 3].map(() => throttle(() => clock.now())),
+        ));
+        await clock.runAll();
+        expect((await promise).sort((a, b) => a - b)).toEqual([0, 0, 1000, 1000, 2000, 2000]);
+        expect(await fs.readdir('.')).not.toContain(`${path}.lock`);
+      } finally {
+        await fs.rm(path, { force: true });
+      }
+    });
+
+    it('delegates acquisitions to the supplied store', async () => {
+      const costs: number[] = [];
+      const throttle = throttledQueue({
+        maxPerInterval: 5,
+        interval: 1000,
+        store: (options) => {
+          const store = memoryStore(options);
+          return {
+            ...store,
+            acquire: (cost, now) => {
+              costs.push(cost);
+              return store.acquire(cost, now);
+            },
+          };
+        },
+      });
+      await Promise.all([throttle(() => 1), throttle(() => 2, {}, { cost: 3 })]);
+      expect(costs).toEqual([1, 3]);
+    });
+  });
+  describe.concurrent('rate limit headers', () => {
+
+    it('parses Retry-After in seconds or as an HTTP date', () => {
+      const now = Date.now();
+      expect(parseRateLimitHeaders(new Headers({ 'Retry-After': '120' }), now).retryAfter).toEqual(120000);
+      expect(
+        parseRateLimitHeaders(new Headers({ 'Retry-After': new Date(now + 30000).toUTCString() }), now).retryAfter,
+      ).toBeGreaterThan(29000);
+      expect(parseRateLimitHeaders(new Headers({ 'Retry-After': 'soon' }), now).retryAfter).toEqual(null);
+    });
+
+    it('parses the IETF RateLimit and RateLimit-Policy headers', () => {
+      expect(parseRateLimitHeaders(new Headers({
+        RateLimit: '"hourly";r=50;t=1200, "daily";r=3;t=30000',
+        'RateLimit-Policy': '"hourly";q=100;w=3600, "daily";q=1000;w=86400',
+      }))).toEqual({
+        retryAfter: null,
+        limit: 1000,
+        remaining: 3,
+        resetAfter: 30000000,
+        window: 86400000,
+      });
+      expect(parseRateLimitHeaders({
+        ratelimit: 'limit=100, remaining=0, reset=5',
+        'ratelimit-policy': '100;w=60',
+      })).toEqual({
+        retryAfter: null,
+        limit: 100,
+        remaining: 0,
+        resetAfter: 5000,
+        window: 60000,
+      });
+    });
+
+    it('parses X-RateLimit headers with a reset timestamp or duration', () => {
+      const now = Math.floor(Date.now() / 1000) * 1000;
+      expect(parseRateLimitHeaders({
+        'X-RateLimit-Limit': '60',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': String(now / 1000 + 60),
+      }, now)).toEqual({
+        retryAfter: null,
+        limit: 60,
+        remaining: 0,
+        resetAfter: 60000,
+        window: null,
+      });
+      expect(parseRateLimitHeaders({ 'x-ratelimit-reset': 30 }, now).resetAfter).toEqual(30000);
+    });
+
+    it('creates a RetryError that pauses the queue from a response', () => {
+      const response = new Response(null, { status: 429, headers: { 'Retry-After': '2' } });
+      expect(RetryError.fromResponse(response)).toEqual(new RetryError({ pauseQueue: true, retryAfter: 2000 }));
+      expect(RetryError.fromResponse({ headers: { 'ratelimit-reset': '3' } }, { pauseQueue: false })).toEqual(
+        new RetryError({ pauseQueue: false, retryAfter: 3000 }),
+      );
+    });
+
+    it('pauses the queue when a response says nothing remains', async () => {
+      const resetAfter = DEFAULT_WAIT;
+      const throttle = throttledQueue({ maxPerInterval: 10, interval: 100 });
+      const now = Date.now();
+      await throttle(() => {
+        throttle.updateFromResponse({
+          headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(resetAfter / 1000) },
+        });
+      });
+      const startedAt = await throttle(() => Date.now());
+      expect(startedAt - now).toBeGreaterThanOrEqual(resetAfter);
+    });
+
+    it('limits the rest of the current interval to what remains', async () => {
+      const interval = 500;
+      const throttle = throttledQueue({ maxPerInterval: 10, interval });
+      throttle.setRemaining(2);
+      const intervalStarts = await Promise.all(
+        Array.from({ length: 3 }).map(() => throttle(({ intervalStart }) => intervalStart)),
+      );
+      expect(intervalStarts[1]).toEqual(intervalStarts[0]);
+      expect(intervalStarts[2] - intervalStarts[0]).toBeGreaterThanOrEqual(interval);
+    });
+  });
+  describe.concurrent('backoff', () => {
+
+    const retryUntil = (attempts: number, log: Array<{ attempt: number, time: number }>, pauseQueue = false) => (
+      ({ attempt }: { attempt: number }) => {
+        log.push({ attempt, time: Date.now() });
+        if (attempt < attempts) {
+          throw new RetryError({ pauseQueue });
+        }
+        return attempt;
+      }
+    );
+    const getWaits = (log: Array<{ time: number }>) => log.slice(1).map(({ time }, x) => time - log[x].time);
+
+    it('exposes the attempt number to the fn', async () => {
+      const throttle = throttledQueue({ backoff: { min: 10 } });
+      const log: Array<{ attempt: number, time: number }> = [];
+      expect(await throttle(retryUntil(3, log))).toEqual(3);
+      expect(log.map(({ attempt }) => attempt)).toEqual([1, 2, 3]);
+    });
+
+    it('waits exponentially longer between retries', async () => {
+      const min = 50;
+      const throttle = throttledQueue({ backoff: { strategy: 'exponential', min } });
+      const log: Array<{ attempt: number, time: number }> = [];
+      await throttle(retryUntil(4, log));
+      const waits = getWaits(log);
+      expect(waits[0]).toBeGreaterThanOrEqual(min);
+      expect(waits[1]).toBeGreaterThanOrEqual(min * 2);
+      expect(waits[2]).toBeGreaterThanOrEqual(min * 4);
+    });
+
+    it('caps the wait between retries', async () => {
+      const max = 80;
+      const throttle = throttledQueue({ backoff: { strategy: 'exponential', min: 50, max } });
+      const log: Array<{ attempt: number, time: number }> = [];
+      await throttle(retryUntil(4, log));
+      const waits = getWaits(log);
+      expect(waits[2]).toBeGreaterThanOrEqual(max);
+      expect(waits[2]).toBeLessThan(max * 2);
+    });
+
+    it('waits linearly longer between pauses', async () => {
+      const min = 100;
+      const throttle = throttledQueue({ backoff: { strategy: 'linear', min } });
+      const log: Array<{ attempt: number, time: number }> = [];
+      await throttle(retryUntil(3, log, true));
+      const waits = getWaits(log);
+      expect(waits[0]).toBeGreaterThanOrEqual(min);
+      expect(waits[1]).toBeGreaterThanOrEqual(min * 2);
+    });
+
+    it('keeps randomized waits within bounds', async () => {
+      const min = 20;
+      const max = 100;
+      const clock = createTestClock();
+      const throttles = [
+        throttledQueue({ clock, backoff: { strategy: 'decorrelated-jitter', min, max } }),
+        throttledQueue({ clock, backoff: { strategy: 'exponential', min, max, jitter: true } }),
+        throttledQueue({ clock, backoff: { strategy: 'constant', min, max, jitter: true } }),
+      ];
+      const logs = throttles.map((): Array<{ time: number }> => []);
+      const promise = Promise.all(throttles.map((throttle, x) => throttle(({ attempt }) => {
+        logs[x].push({ time: clock.now() });
+        if (attempt < 6) {
+          throw new RetryError();
+        }
+      })));
+      await clock.runAll();
+      await promise;
+      logs.forEach((log) => {
+        const waits = getWaits(log);
+        waits.forEach((wait) => {
+          expect(wait).toBeGreaterThanOrEqual(min);
+          expect(wait).toBeLessThanOrEqual(max);
+        });
+        expect(new Set(waits).size).toBeGreaterThan(1);
+      });
+    });
+
+    it('prefers the retryAfter of the RetryError', async () => {
+      const throttle = throttledQueue({ backoff: { strategy: 'exponential', min: DEFAULT_WAIT * 10 } });
+      const now = Date.now();
+      await throttle(({ attempt }) => {
+        if (attempt === 1) {
+          throw new RetryError({ retryAfter: 10 });
+        }
+      });
+      expect(Date.now() - now).toBeLessThan(DEFAULT_WAIT * 10);
+    });
+  });
+  describe.concurrent('hooks', () => {
+
+    it('calls hooks throughout the lifecycle of the queued fns', async () => {
+      const events: string[] = [];
+      const throttle = throttledQueue({
+        maxPerInterval: 1,
+        interval: 100,
+        maxRetriesWithPauses: 1,
+        hooks: {
+          onEnqueue: ({ state }) => events.push(`enqueue ${state.name as string}`),
+          onStart: ({ state, attempt }) => events.push(`start ${state.name as string} ${attempt}`),
+          onSuccess: ({ state }) => events.push(`success ${state.name as string}`),
+          onError: ({ state, error }) => events.push(`error ${state.name as string} ${(error as Error).message}`),
+          onRetry: ({ state, wait }) => events.push(`retry ${state.name as string} ${wait}`),
+          onDrop: ({ state, reason }) => events.push(`drop ${state.name as string} ${reason as string}`),
+          onPause: ({ until }) => events.push(`pause ${until === null ? 'manual' : 'timed'}`),
+          onResume: () => events.push('resume'),
+        },
+      });
+      const controller = new AbortController();
+      const results = await Promise.allSettled([
+        throttle(({ attempt }) => {
+          if (attempt === 1) {
+            throw new RetryError({ retryAfter: 10 });
+          }
+        }, { name: 'a' }),
+        throttle(() => {
+          throw new Error('oops');
+        }, { name: 'b' }),
+        throttle(() => {
+          controller.abort('cancelled');
+        }, { name: 'c' }),
+        throttle(() => {}, { name: 'd' }, { signal: controller.signal }),
+      ]);
+      expect(results.map(({ status }) => status)).toEqual(['fulfilled', 'rejected', 'fulfilled', 'rejected']);
+
+      throttle.pause();
+      throttle.resume();
+      await throttle(() => {
+        throw new RetryError({ pauseQueue: true, retryAfter: 10 });
+      }, { name: 'e' }).catch(() => {});
+
+      expect(events).toEqual([
+        'enqueue a',
+        'start a 1',
+        'enqueue b',
+        'enqueue c',
+        'enqueue d',
+        'retry a 10',
+        'start b 1',
+        'error b oops',
+        'start c 1',
+        'drop d cancelled',
+        'success c',
+        'start a 2',
+        'success a',
+        'pause manual',
+        'resume',
+        'enqueue e',
+        'start e 1',
+        'retry e 10',
+        'pause timed',
+        'resume',
+        'start e 2',
+        'error e Maximum retry limit reached.',
+      ]);
+    });
+
+    it('reports timing data and counters', async () => {
+      const interval = 200;
+      const throttle = throttledQueue({ maxPerInterval: 1, interval });
+      await Promise.all(
+        [1, 2, 3].map(() => throttle(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        })),
+      );
+      const controller = new AbortController();
+      const aborted = throttle(() => {}, {}, { signal: controller.signal });
+      controller.abort();
+      await aborted.catch(() => {});
+      const stats = throttle.stats();
+      expect(stats).toEqual({
+        size: 0,
+        pending: 0,
+        inFlight: 0,
+        paused: false,
+        enqueued: 4,
+        started: 3,
+        succeeded: 3,
+        failed: 0,
+        retried: 0,
+        dropped: 1,
+        averageQueuedDuration: expect.any(Number) as number,
+        averageDuration: expect.any(Number) as number,
+        rate: 1,
+      });
+      expect(stats.averageQueuedDuration).toBeGreaterThanOrEqual(interval - 10);
+      expect(stats.averageDuration).toBeGreaterThanOrEqual(45);
+    });
+
+    it('reports errors thrown by hooks without breaking the queue', async () => {
+      const hookErrors: string[] = [];
+      const throttle = throttledQueue({
+        hooks: {
+          onStart: () => {
+            throw new Error('start failed');
+          },
+          onSuccess: () => {
+            throw new Error('success failed');
+          },
+          onHookError: ({ hook, error }) => {
+            hookErrors.push(`${hook} ${(error as Error).message}`);
+            throw new Error('ignored');
+          },
+        },
+      });
+      expect(await throttle(() => 'done')).toEqual('done');
+      expect(hookErrors).toEqual(['onStart start failed', 'onSuccess success failed']);
+      const silent = throttledQueue({
+        hooks: {
+          onStart: () => {
+            throw new Error('start failed');
+          },
+        },
+      });
+      expect(await silent(() => 'done')).toEqual('done');
+    });
+  });
+
+  describe.concurrent('max queue size', () => {
+
+    const enqueueAll = (throttle: ReturnType<typeof throttledQueue>, names: string[], executed: string[]) => (
+      Promise.allSettled(names.map((name) => throttle(() => {
+        executed.push(name);
+        return name;
+      })))
+    );
+
+    it('rejects fns enqueued while the queue is full', async () => {
+      const throttle = throttledQueue({ maxPerInterval: 1, interval: 100, maxQueueSize: 2 });
+      const executed: string[] = [];
+      const results = await enqueueAll(throttle, ['a', 'b', 'c', 'd'], executed);
+      expect(executed).toEqual(['a', 'b', 'c']);
+      expect(results[3].status).toEqual('rejected');
+      expect((results[3] as PromiseRejectedResult).reason).toBeInstanceOf(QueueFullError);
+      expect(throttle.stats().dropped).toEqual(1);
+    });
+
+    it('drops the oldest queued fn to make room', async () => {
+      const throttle = throttledQueue({
+        maxPerInterval: 1,
+        interval: 100,
+        maxQueueSize: 2,
+        overflow: 'drop-oldest',
+      });
+      const executed: string[] = [];
+      const results = await enqueueAll(throttle, ['a', 'b', 'c', 'd'], executed);
+      expect(executed).toEqual(['a', 'c', 'd']);
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(QueueFullError);
+    });
+
+    it('drops the newest queued fn to make room', async () => {
+      const throttle = throttledQueue({
+        maxPerInterval: 1,
+        interval: 100,
+        maxQueueSize: 2,
+        overflow: 'drop-newest',
+      });
+      const executed: string[] = [];
+      const results = await enqueueAll(throttle, ['a', 'b', 'c', 'd'], executed);
+      expect(executed).toEqual(['a', 'b', 'd']);
+      expect((results[2] as PromiseRejectedResult).reason).toBeInstanceOf(QueueFullError);
+    });
+
+    it('blocks fns enqueued while the queue is full until there is room', async () => {
+      const throttle = throttledQueue({
+        maxPerInterval: 1,
+        interval: 100,
+        maxQueueSize: 2,
+        overflow: 'block',
+      });
+      const executed: string[] = [];
+      const promise = enqueueAll(throttle, ['a', 'b', 'c', 'd'], executed);
+      expect(throttle.size).toEqual(2);
+      expect(throttle.pending).toEqual(4);
+
+      const start = Date.now();
+      await throttle.onSpace();
+      expect(Date.now() - start).toBeGreaterThanOrEqual(195);
+      expect(throttle.size).toEqual(1);
+
+      const results = await promise;
+      expect(results.every(({ status }) => status === 'fulfilled')).toEqual(true);
+      expect(executed).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('frees up room when a blocked or queued fn is aborted', async () => {
+      const throttle = throttledQueue({
+        maxPerInterval: 1,
+        interval: 100,
+        maxQueueSize: 1,
+        overflow: 'block',
+      });
+      const controller = new AbortController();
+      const executed: string[] = [];
+      const promises = ['a', 'b', 'c', 'd'].map((name) => throttle(
+        () => executed.push(name),
+        {},
+        { signal: name === 'b' || name === 'c' ? controller.signal : undefined },
+      ));
+      expect(throttle.size).toEqual(1);
+      controller.abort();
+      expect(throttle.size).toEqual(1);
+      const results = await Promise.allSettled(promises);
+      expect(results.map(({ status }) => status)).toEqual(['fulfilled', 'rejected', 'rejected', 'fulfilled']);
+      expect(executed).toEqual(['a', 'd']);
+    });
+
+    it('applies the overflow policy to retried fns', async () => {
+      const throttle = throttledQueue({ maxPerInterval: 1, interval: 200, maxQueueSize: 1 });
+      const retried = throttle(() => {
+        throw new RetryError({ retryAfter: 10 });
+      });
+      const queued = throttle(() => 'queued');
+      await expect(retried).rejects.toBeInstanceOf(QueueFullError);
+      await expect(queued).resolves.toEqual('queued');
+    });
+
+    it('requires a valid size and overflow policy', () => {
+      expect(() => throttledQueue({ maxQueueSize: 0 })).toThrow('"maxQueueSize" must be a positive integer.');
+      expect(() => throttledQueue({ overflow: 'ignore' as 'block' })).toThrow(
+        '"ignore" is not a valid overflow policy.',
+      );
+    });
+  });
+
+  describe.concurrent('timeouts', () => {
+
+    it('rejects executions that take longer than the timeout, aborting their signal', async () => {
+      const throttle = throttledQueue({ maxConcurrent: 1, timeout: 50 });
+      let hungSignal: AbortSignal | undefined;
+      const hung = throttle(({ signal }) => {
+        hungSignal = signal;
+        return new Promise(() => {});
+      });
+      const next = throttle(() => 'next');
+
+      const start = Date.now();
+      await expect(hung).rejects.toBeInstanceOf(TimeoutError);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+      expect(hungSignal?.aborted).toEqual(true);
+      expect(hungSignal?.reason).toBeInstanceOf(TimeoutError);
+      await expect(next).resolves.toEqual('next');
+      expect(throttle.stats().failed).toEqual(1);
+    });
+
+    it('overrides the timeout per function', async () => {
+      const throttle = throttledQueue({ timeout: 1000 });
+      const wait = (ms: number) => new Promise((resolve) => setTimeout(() => resolve(ms), ms));
+      await expect(throttle(() => wait(100), {}, { timeout: 20 })).rejects.toThrow(
+        'The queued function did not settle within 20ms.',
+      );
+      await expect(throttledQueue()(() => wait(50), {}, { timeout: 100 })).resolves.toEqual(50);
+    });
+
+    it('does not pass a signal to functions without a timeout', async () => {
+      const throttle = throttledQueue();
+      expect(await throttle(({ signal }) => signal)).toBeUndefined();
+      expect(await throttle(({ signal }) => signal?.aborted, {}, { timeout: 100 })).toEqual(false);
+    });
+
+    it('does not retry timed out functions', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        clock,
+        timeout: 50,
+        retryOn: () => true,
+        mapError: () => new RetryError(),
+      });
+      let calls = 0;
+      const promise = throttle(() => {
+        calls++;
+        return new Promise(() => {});
+      });
+      const rejected = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+      await clock.runAll();
+      await rejected;
+      expect(calls).toEqual(1);
+    });
+
+    it('rejects functions that wait longer than maxWait to start', async () => {
+      const throttle = throttledQueue({ maxPerInterval: 1, interval: 200, maxWait: 100 });
+      const first = throttle(() => 'first');
+      const second = throttle(() => 'second');
+      const third = throttle(() => 'third', {}, { maxWait: 300 });
+
+      await expect(first).resolves.toEqual('first');
+      await expect(second).rejects.toBeInstanceOf(QueueWaitTimeoutError);
+      await expect(third).resolves.toEqual('third');
+      expect(throttle.stats().dropped).toEqual(1);
+    });
+
+    it('rejects functions waiting behind a paused queue', async () => {
+      const throttle = throttledQueue();
+      throttle.pause();
+      const promise = throttle(() => 'never', {}, { maxWait: 50 });
+      expect(throttle.size).toEqual(1);
+      await expect(promise).rejects.toThrow('The queued function did not start within 50ms.');
+      expect(throttle.size).toEqual(0);
+      expect(throttle.pending).toEqual(0);
+    });
+
+    it('requires positive timeouts', async () => {
+      expect(() => throttledQueue({ timeout: 0 })).toThrow('"timeout" must be positive.');
+      expect(() => throttledQueue({ maxWait: -1 })).toThrow('"maxWait" must be positive.');
+      await expect(throttledQueue()(() => {}, {}, { maxWait: 0 })).rejects.toThrow('"maxWait" must be positive.');
+    });
+  });
+
+  describe.concurrent('keyed queues', () => {
+
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    it('limits each key separately', async () => {
+      const throttle = keyedThrottledQueue({ maxPerInterval: 1, interval: 200 });
+      const now = Date.now();
+      const [a1, a2, b1] = await Promise.all([
+        throttle('a', () => Date.now()),
+        throttle('a', () => Date.now()),
+        throttle('b', () => Date.now()),
+      ]);
+      expect(a1 - now).toBeLessThan(100);
+      expect(b1 - now).toBeLessThan(100);
+      expect(a2 - now).toBeGreaterThanOrEqual(195);
+      expect(throttle.size).toEqual(2);
+      expect(throttle.get('a').pending).toEqual(0);
+    });
+
+    it('applies the options of specific keys', async () => {
+      const throttle = keyedThrottledQueue({
+        maxPerInterval: 1,
+        interval: 200,
+        overrides: (key) => (key.startsWith('vip') ? { maxPerInterval: 2 } : undefined),
+      });
+      const now = Date.now();
+      const vip = await Promise.all([throttle('vip-1', () => Date.now()), throttle('vip-1', () => Date.now())]);
+      const regular = await Promise.all([throttle('r', () => Date.now()), throttle('r', () => Date.now())]);
+      expect(vip[1] - now).toBeLessThan(100);
+      expect(regular[1] - now).toBeGreaterThanOrEqual(195);
+
+      const withRecord = keyedThrottledQueue({
+        maxPerInterval: 1,
+        interval: 200,
+        overrides: { vip: { maxPerInterval: 2 } },
+      });
+      const start = Date.now();
+      await Promise.all([withRecord('vip', () => {}), withRecord('vip', () => {})]);
+      expect(Date.now() - start).toBeLessThan(100);
+    });
+
+    it('enforces a global limit across all keys', async () => {
+      const throttle = keyedThrottledQueue({
+        maxPerInterval: 2,
+        interval: 200,
+        global: { maxPerInterval: 2, interval: 200 },
+      });
+      const now = Date.now();
+      const times = await Promise.all(['a', 'a', 'b', 'b'].map((key) => throttle(key, () => Date.now() - now)));
+      expect(times.filter((time) => time < 100)).toHaveLength(2);
+      expect(times.filter((time) => time >= 195)).toHaveLength(2);
+    });
+
+    it('uses up the global limit once per function, whatever the number of limits', async () => {
+      const clock = createTestClock();
+      const throttle = keyedThrottledQueue({
+        clock,
+        limits: [{ maxPerInterval: 10, interval: 1000 }, { maxPerInterval: 100, interval: 60000 }],
+        global: { maxPerInterval: 4, interval: 1000 },
+      });
+      const promise = Promise.all(['a', 'a', 'a', 'b', 'b', 'b'].map((key) => throttle(key, () => clock.now())));
+      await clock.runAll();
+      expect(await promise).toEqual([0, 0, 0, 0, 1000, 1000]);
+    });
+
+    it('removes the queues of idle keys', async () => {
+      const throttle = keyedThrottledQueue({ maxPerInterval: 1, interval: 50 });
+      await Promise.all([throttle('a', () => {}), throttle('a', () => {})]);
+      expect(throttle.size).toEqual(1);
+      await sleep(100);
+      expect(throttle.size).toEqual(0);
+
+      const withTimeout = keyedThrottledQueue({ idleTimeout: 50 });
+      await withTimeout('a', () => sleep(100));
+      await sleep(25);
+      expect(withTimeout.size).toEqual(1);
+      await sleep(50);
+      expect(withTimeout.size).toEqual(0);
+    });
+
+    it('clears and waits for every key', async () => {
+      const throttle = keyedThrottledQueue({ maxPerInterval: 1, interval: 1000 });
+      const results = Promise.allSettled(['a', 'a', 'b', 'b'].map((key) => throttle(key, () => key)));
+      throttle.clear('stop');
+      await throttle.onIdle();
+      expect((await results).map(({ status }) => status)).toEqual(['fulfilled', 'rejected', 'fulfilled', 'rejected']);
+    });
+
+    it('requires a valid global limit', () => {
+      expect(() => keyedThrottledQueue({ global: { maxPerInterval: 0 } })).toThrow(
+        '"global.maxPerInterval" must be a positive integer.',
+      );
+      expect(() => keyedThrottledQueue({ idleTimeout: -1 })).toThrow('"idleTimeout" cannot be negative.');
+    });
+  });
+
+  describe.concurrent('stacked limits', () => {
+
+    it('only starts fns once every limit allows it', async () => {
+      const throttle = throttledQueue({
+        limits: [
+          { maxPerInterval: 2, interval: 100 },
+          { maxPerInterval: 3, interval: 1000 },
+        ],
+      });
+      const now = Date.now();
+      const contexts = await Promise.all(
+        Array.from({ length: 4 }).map(
+          () => throttle(({ intervalStart, intervalStarts }) => ({ intervalStart, intervalStarts, time: Date.now() })),
+        ),
+      );
+      expect(contexts[1].time - now).toBeLessThan(50);
+      expect(contexts[2].time - now).toBeGreaterThanOrEqual(95);
+      expect(contexts[2].time - now).toBeLessThan(500);
+      expect(contexts[3].time - now).toBeGreaterThanOrEqual(995);
+
+      expect(contexts[2].intervalStarts).toHaveLength(2);
+      expect(contexts[2].intervalStart).toEqual(contexts[2].intervalStarts[0]);
+      expect(contexts[2].intervalStarts[0]).toBeGreaterThan(contexts[0].intervalStarts[0]);
+      expect(contexts[2].intervalStarts[1]).toEqual(contexts[0].intervalStarts[1]);
+      expect(contexts[3].intervalStarts[1]).toBeGreaterThan(contexts[0].intervalStarts[1]);
+    });
+
+    it('evenly spaces fns for every limit', async () => {
+      const throttle = throttledQueue({
+        limits: [
+          { maxPerInterval: 4, interval: 100 },
+          { maxPerInterval: 2, interval: 200 },
+        ],
+        evenlySpaced: true,
+      });
+      const times = await Promise.all(Array.from({ length: 3 }).map(() => throttle(() => Date.now())));
+      expect(times[1] - times[0]).toBeGreaterThanOrEqual(95);
+      expect(times[2] - times[1]).toBeGreaterThanOrEqual(95);
+    });
+
+    it('requires valid limits', () => {
+      expect(() => throttledQueue({ limits: [] })).toThrow('"limits" cannot be empty.');
+      expect(() => throttledQueue({ maxPerInterval: 1, limits: [{ maxPerInterval: 1, interval: 100 }] })).toThrow(
+        '"limits" cannot be used with "maxPerInterval" or "interval".',
+      );
+      expect(() => throttledQueue({
+        limits: [{ maxPerInterval: 1, interval: 100 }, { maxPerInterval: 0, interval: 100 }],
+      })).toThrow('"limits[1].maxPerInterval" must be a positive integer.');
+    });
+  });
+
+  describe.concurrent('persistent queues', () => {
+
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    it('keeps jobs in storage until they settle, and restores them', async () => {
+      const storage = memoryStorage();
+      const crashed = persistentThrottledQueue({
+        storage,
+        handlers: { greet: ({ state }: { state: { name: string } }) => `hello ${state.name}` },
+      });
+      crashed.queue.pause();
+      void crashed('greet', { name: 'world' });
+      await sleep(10);
+      expect(await storage.load()).toMatchObject([{ name: 'greet', state: { name: 'world' } }]);
+
+      const greetings: string[] = [];
+      const restarted = persistentThrottledQueue({
+        storage,
+        handlers: {
+          greet: ({ state }: { state: { name: string } }) => {
+            greetings.push(`hello ${state.name}`);
+          },
+        },
+      });
+      expect(await restarted.restore()).toEqual(1);
+      await restarted.queue.onIdle();
+      await sleep(10);
+      expect(greetings).toEqual(['hello world']);
+      expect(await storage.load()).toEqual([]);
+
+      const result: string = await restarted('greet', { name: 'again' }).then(() => 'done');
+      expect(result).toEqual('done');
+      expect(await storage.load()).toEqual([]);
+    });
+
+    it('restores jobs with their remaining retries', async () => {
+      const storage = memoryStorage();
+      const handlers = {
+        flaky: () => {
+          throw new RetryError({ retryAfter: 50 });
+        },
+      };
+      const crashed = persistentThrottledQueue({ storage, handlers, maxRetries: 2 });
+      void crashed('flaky');
+      await sleep(20);
+      crashed.queue.pause();
+      expect((await storage.load())[0].retries).toMatchObject({ maxRetries: 1, attempt: 1 });
+
+      const attempts: number[] = [];
+      const errors: unknown[] = [];
+      const restarted = persistentThrottledQueue({
+        storage,
+        maxRetries: 2,
+        handlers: {
+          flaky: ({ attempt }) => {
+            attempts.push(attempt);
+            throw new RetryError({ retryAfter: 10 });
+          },
+        },
+        hooks: { onError: ({ error }) => errors.push(error) },
+      });
+      await restarted.restore();
+      await restarted.queue.onIdle();
+      expect(attempts).toEqual([2, 3]);
+      expect(errors).toHaveLength(1);
+      await sleep(10);
+      expect(await storage.load()).toEqual([]);
+    });
+
+    it('reports storage errors without changing the outcome of jobs', async () => {
+      const storage = memoryStorage();
+      const errors: string[] = [];
+      const throttle = persistentThrottledQueue({
+        storage: {
+          ...storage,
+          save: async (job) => {
+            if (job.retries.attempt) {
+              throw new Error('save failed');
+            }
+            await storage.save(job);
+          },
+          remove: () => Promise.reject(new Error('disk full')),
+        },
+        handlers: {
+          answer: ({ attempt }) => {
+            if (attempt === 1) {
+              throw new RetryError({ retryAfter: 10 });
+            }
+            return 42;
+          },
+        },
+        onStorageError: ({ job, error }) => {
+          errors.push(`${job.name} ${(error as Error).message}`);
+          throw new Error('ignored');
+        },
+      });
+      expect(await throttle('answer')).toEqual(42);
+      expect(errors).toEqual(['answer save failed', 'answer disk full']);
+      expect(await storage.load()).toHaveLength(1);
+    });
+
+    it('rejects unknown handlers', async () => {
+      const storage = memoryStorage();
+      const throttle = persistentThrottledQueue({ storage, handlers: { known: () => 1 } });
+      await expect(throttle('unknown' as 'known')).rejects.toThrow('"unknown" is not a registered handler.');
+      await storage.save({
+        id: '1',
+        name: 'unknown',
+        state: {},
+        options: {},
+        retries: {
+          maxRetries: 1,
+          maxRetriesWithPauses: 1,
+          attempt: 0,
+          previousWait: 0,
+        },
+      });
+      await expect(throttle.restore()).rejects.toThrow('"unknown" is not a registered handler.');
+    });
+
+    it('keeps jobs in an append-only file', async () => {
+      const fsModule = 'node:fs/promises';
+      const fs = await import(fsModule) as {
+        appendFile: (path: string, data: string) => Promise<void>,
+        readFile: (path: string, encoding: 'utf8') => Promise<string>,
+        rm: (path: string, options: { force: boolean }) => Promise<void>,
+      };
+      const path = `.throttled-queue-test-${Math.random().toString(36).slice(2)}.log`;
+      const job = (id: string) => ({
+        id,
+        name: 'job',
+        state: { id },
+        options: {},
+        retries: {
+          maxRetries: 1,
+          maxRetriesWithPauses: 1,
+          attempt: 0,
+          previousWait: 0,
+        },
+      });
+      try {
+        const storage = fileStorage(path);
+        expect(await storage.load()).toEqual([]);
+        await storage.save(job('a'));
+        await storage.save(job('b'));
+        await storage.save({ ...job('a'), state: { id: 'a', updated: true } });
+        await storage.remove('b');
+        await fs.appendFile(path, '{"type":"save","job":{"id":"c"');
+
+        const restarted = fileStorage(path);
+        expect(await restarted.load()).toEqual([{ ...job('a'), state: { id: 'a', updated: true } }]);
+        expect((await fs.readFile(path, 'utf8')).trim().split('\n')).toHaveLength(1);
+      } finally {
+        await fs.rm(path, { force: true });
+      }
+    });
+  });
+
+  describe.concurrent('test clock', () => {
+
+    it('fires timers in order as time advances', async () => {
+      const clock = createTestClock(1000);
+      const fired: string[] = [];
+      clock.setTimeout(() => fired.push('b'), 20);
+      clock.setTimeout(() => fired.push('a'), 10);
+      const cleared = clock.setTimeout(() => fired.push('cleared'), 15);
+      clock.setTimeout(() => fired.push('c'), 20);
+      clock.clearTimeout(cleared);
+
+      await clock.advance(15);
+      expect(fired).toEqual(['a']);
+      expect(clock.now()).toEqual(1015);
+      expect(clock.pending).toEqual(2);
+
+      expect(await clock.runAll()).toEqual(5);
+      expect(fired).toEqual(['a', 'b', 'c']);
+      expect(clock.pending).toEqual(0);
+    });
+
+    it('honors the interval without waiting', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 2, interval: seconds(10), clock });
+      const startTimes: number[] = [];
+      const promise = Promise.all(Array.from({ length: 5 }).map(() => throttle(() => startTimes.push(clock.now()))));
+
+      await clock.advance(0);
+      expect(startTimes).toEqual([0, 0]);
+      await clock.advance(seconds(10));
+      expect(startTimes).toEqual([0, 0, 10000, 10000]);
+      await clock.runAll();
+      await promise;
+      expect(startTimes).toEqual([0, 0, 10000, 10000, 20000]);
+    });
+
+    it('evenly spaces fns without waiting', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        maxPerInterval: 4,
+        interval: minutes(1),
+        evenlySpaced: true,
+        clock,
+      });
+      const startTimes: number[] = [];
+      const promise = Promise.all(Array.from({ length: 4 }).map(() => throttle(() => startTimes.push(clock.now()))));
+      await clock.runAll();
+      await promise;
+      expect(startTimes).toEqual([0, 15000, 30000, 45000]);
+    });
+
+    it('retries and pauses without waiting', async () => {
+      const clock = createTestClock();
+      const events: string[] = [];
+      const throttle = throttledQueue({
+        maxPerInterval: 10,
+        interval: 1000,
+        clock,
+        hooks: {
+          onPause: ({ until }) => events.push(`pause until ${until as number}`),
+          onResume: () => events.push(`resume at ${clock.now()}`),
+        },
+      });
+      const retried = throttle(({ attempt }) => {
+        if (attempt < 3) {
+          throw new RetryError({ retryAfter: minutes(attempt) });
+        }
+        return clock.now();
+      });
+      const paused = throttle(({ attempt }) => {
+        if (attempt === 1) {
+          throw new RetryError({ pauseQueue: true, retryAfter: hours(1) });
+        }
+        return clock.now();
+      });
+
+      await clock.runAll();
+      expect(await paused).toEqual(hours(1));
+      expect(await retried).toEqual(hours(1) + minutes(2));
+      expect(events).toEqual([`pause until ${hours(1)}`, `resume at ${hours(1)}`]);
+    });
+
+    it('times out executions without waiting', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ timeout: hours(1), clock });
+      const assertion = expect(throttle(() => new Promise(() => {}))).rejects.toBeInstanceOf(TimeoutError);
+      await clock.advance(hours(1));
+      await assertion;
+    });
+  });
+
+  describe.concurrent('batched queues', () => {
+
+    it('groups inputs into batches of up to maxBatchSize', async () => {
+      const clock = createTestClock();
+      const batches: Array<{ inputs: number[], time: number }> = [];
+      const double = batchedThrottledQueue({
+        maxPerInterval: 1,
+        interval: 1000,
+        maxBatchSize: 3,
+        maxBatchWait: 10,
+        clock,
+        handler: (inputs: number[]) => {
+          batches.push({ inputs, time: clock.now() });
+          return inputs.map((input) => input * 2);
+        },
+      });
+      const results = Promise.all([1, 2, 3, 4, 5, 6, 7].map((input) => double(input)));
+      await clock.runAll();
+      expect(await results).toEqual([2, 4, 6, 8, 10, 12, 14]);
+      expect(batches).toEqual([
+        { inputs: [1, 2, 3], time: 0 },
+        { inputs: [4, 5, 6], time: 1000 },
+        { inputs: [7], time: 2000 },
+      ]);
+    });
+
+    it('waits up to maxBatchWait for a batch to fill up', async () => {
+      const clock = createTestClock();
+      const batches: string[][] = [];
+      const throttle = batchedThrottledQueue({
+        maxBatchSize: 10,
+        maxBatchWait: 50,
+        clock,
+        handler: (inputs: string[]) => {
+          batches.push(inputs);
+          return inputs;
+        },
+      });
+      void throttle('a');
+      await clock.advance(25);
+      void throttle('b');
+      await clock.advance(24);
+      expect(batches).toEqual([]);
+      await clock.advance(1);
+      expect(batches).toEqual([['a', 'b']]);
+
+      void throttle('c');
+      throttle.flush();
+      await clock.advance(0);
+      expect(batches).toEqual([['a', 'b'], ['c']]);
+    });
+
+    it('settles each input individually', async () => {
+      const clock = createTestClock();
+      const batches: string[][] = [];
+      const throttle = batchedThrottledQueue({
+        maxBatchSize: 10,
+        maxRetries: 1,
+        clock,
+        handler: (inputs: string[]) => {
+          batches.push(inputs);
+          return inputs.map((input) => {
+            if (input === 'bad') {
+              return new Error('bad input');
+            }
+            if (input.startsWith('retry')) {
+              return new RetryError({ retryAfter: 100 });
+            }
+            return input.toUpperCase();
+          });
+        },
+      });
+      const results = Promise.allSettled(['ok', 'bad', 'retry'].map((input) => throttle(input)));
+      await clock.runAll();
+      expect((await results).map((result) => (
+        result.status === 'fulfilled' ? result.value : (result.reason as Error).message
+      ))).toEqual(['OK', 'bad input', 'Maximum retry limit reached.']);
+      expect(batches).toEqual([['ok', 'bad', 'retry'], ['retry']]);
+    });
+
+    it('retries the whole batch when the handler throws a RetryError', async () => {
+      const clock = createTestClock();
+      const batches: string[][] = [];
+      const throttle = batchedThrottledQueue({
+        maxBatchSize: 2,
+        clock,
+        handler: (inputs: string[], { attempt }) => {
+          batches.push(inputs);
+          if (attempt === 1) {
+            throw new RetryError({ retryAfter: 100 });
+          }
+          return inputs;
+        },
+      });
+      const results = Promise.all(['a', 'b', 'c'].map((input) => throttle(input)));
+      await clock.runAll();
+      expect(await results).toEqual(['a', 'b', 'c']);
+      expect(batches).toEqual([['a', 'b'], ['c'], ['a', 'b'], ['c']]);
+    });
+
+    it('rejects every input of a failed batch', async () => {
+      const throttle = batchedThrottledQueue({
+        maxBatchSize: 2,
+        handler: (inputs: string[]) => inputs.slice(1),
+      });
+      const results = await Promise.allSettled([throttle('a'), throttle('b')]);
+      expect(results.map((result) => (result as PromiseRejectedResult).reason)).toEqual([
+        new Error('The batch handler must return one result per input.'),
+        new Error('The batch handler must return one result per input.'),
+      ]);
+      expect(() => batchedThrottledQueue({ maxBatchSize: 0, handler: () => [] })).toThrow(
+        '"maxBatchSize" must be a positive integer.',
+      );
+    });
+
+    it('retries inputs with the backoff of the queue', async () => {
+      const clock = createTestClock();
+      const times: number[] = [];
+      const throttle = batchedThrottledQueue({
+        maxBatchSize: 1,
+        maxRetries: 2,
+        backoff: { strategy: 'exponential', min: 100 },
+        clock,
+        handler: (inputs: string[]) => {
+          times.push(clock.now());
+          return times.length < 3 ? [new RetryError()] : inputs;
+        },
+      });
+      const result = throttle('a');
+      await clock.runAll();
+      expect(await result).toEqual('a');
+      expect(times).toEqual([0, 100, 300]);
+    });
+
+    it('rejects the inputs of batches that are removed before they start', async () => {
+      const clock = createTestClock();
+      const throttle = batchedThrottledQueue({
+        maxPerInterval: 1,
+        interval: 1000,
+        maxBatchSize: 1,
+        maxWait: 100,
+        clock,
+        handler: (inputs: string[]) => inputs,
+      });
+      const results = Promise.allSettled(['a', 'b', 'c'].map((input) => throttle(input)));
+      await clock.runAll();
+      expect((await results).map((result) => (
+        result.status === 'fulfilled' ? result.value : result.reason as unknown
+      ))).toEqual(['a', new QueueWaitTimeoutError(100), new QueueWaitTimeoutError(100)]);
+      expect(clock.pending).toEqual(0);
+    });
+  });
+
+  describe.concurrent('adaptive rate', () => {
+
+    it('lowers the rate when the queue is paused and raises it after each interval', async () => {
+      const clock = createTestClock();
+      const rates: number[] = [];
+      const throttle = throttledQueue({
+        maxPerInterval: 8,
+        interval: 1000,
+        adaptive: true,
+        clock,
+        hooks: { onRateChange: ({ rate }) => rates.push(rate) },
+      });
+      const paused = throttle(({ attempt }) => {
+        if (attempt === 1) {
+          throw new RetryError({ pauseQueue: true, retryAfter: 1000 });
+        }
+      });
+      await clock.advance(0);
+      expect(throttle.rate).toEqual(4);
+      await clock.runAll();
+      await paused;
+      for (let i = 0; i < 5; i++) {
+        await clock.advance(1000);
+        await throttle(() => {});
+      }
+      expect(rates).toEqual([4, 5, 6, 7, 8]);
+      expect(throttle.stats().rate).toEqual(8);
+    });
+
+    it('lowers the rate once for executions that were already running', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        maxPerInterval: 8,
+        interval: 1000,
+        adaptive: { min: 3 },
+        clock,
+      });
+      const pause = ({ attempt }: { attempt: number }) => {
+        if (attempt === 1) {
+          throw new RetryError({ pauseQueue: true, retryAfter: 1000 });
+        }
+      };
+      const first = Promise.all([throttle(pause), throttle(pause), throttle(pause)]);
+      await clock.advance(0);
+      expect(throttle.rate).toEqual(4);
+      const second = Promise.all([throttle(pause), throttle(pause)]);
+      await clock.advance(1000);
+      expect(throttle.rate).toEqual(3);
+      await clock.runAll();
+      await Promise.all([first, second]);
+    });
+
+    it('enforces the adaptive rate', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        maxPerInterval: 4,
+        interval: 1000,
+        adaptive: { initial: 2 },
+        clock,
+      });
+      const startTimes: number[] = [];
+      const promise = Promise.all(Array.from({ length: 7 }).map(() => throttle(() => startTimes.push(clock.now()))));
+      await clock.runAll();
+      await promise;
+      expect(startTimes).toEqual([0, 0, 1000, 1000, 2000, 2000, 2000]);
+      expect(throttle.rate).toEqual(4);
+    });
+
+    it('validates the adaptive options', () => {
+      expect(() => throttledQueue({ adaptive: true })).toThrow('"adaptive.max" must be finite.');
+      expect(() => throttledQueue({ maxPerInterval: 5, interval: 1000, adaptive: { min: 6 } })).toThrow(
+        '"adaptive.max" cannot be less than "adaptive.min".',
+      );
+      expect(() => throttledQueue({ maxPerInterval: 5, interval: 1000, adaptive: { decrease: 1 } })).toThrow(
+        '"adaptive.decrease" must be between 0 and 1.',
+      );
+      expect(() => throttledQueue({
+        maxPerInterval: 5,
+        interval: 1000,
+        evenlySpaced: true,
+        adaptive: true,
+      })).toThrow('"adaptive" cannot be used with "evenlySpaced".');
+    });
+  });
+
+  describe.concurrent('streams', () => {
+
+    it('maps an async iterable in order while honoring the throttle', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 2, interval: 1000, clock });
+      async function* source() {
+        for (let i = 1; i <= 5; i++) {
+          yield await Promise.resolve(i);
+        }
+      }
+      const startTimes: number[] = [];
+      const collected = (async () => {
+        const results: number[] = [];
+        for await (const result of throttle.map(source(), (item) => {
+          startTimes.push(clock.now());
+          return item * 10;
+        })) {
+          results.push(result);
+        }
+        return results;
+      })();
+      await clock.runAll();
+      expect(await collected).toEqual([10, 20, 30, 40, 50]);
+      expect(startTimes).toEqual([0, 0, 1000, 1000, 2000]);
+    });
+
+    it('yields results as soon as they are ready when unordered', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ clock });
+      const durations = [300, 100, 200];
+      const collected = (async () => {
+        const results: number[] = [];
+        const wait = (item: number) => new Promise<number>((resolve) => {
+          clock.setTimeout(() => resolve(item), item);
+        });
+        for await (const result of throttle.map(durations, wait, { ordered: false })) {
+          results.push(result);
+        }
+        return results;
+      })();
+      await clock.runAll();
+      expect(await collected).toEqual([100, 200, 300]);
+    });
+
+    it('only takes items from the source once there is room for them', async () => {
+      const throttle = throttledQueue({ maxQueueSize: 2 });
+      let pulled = 0;
+      let returned = false;
+      function* source() {
+        try {
+          for (let i = 0; i < 100; i++) {
+            pulled++;
+            yield i;
+          }
+        } finally {
+          returned = true;
+        }
+      }
+      const results: number[] = [];
+      for await (const result of throttle.map(source(), (item) => item, { highWaterMark: 4 })) {
+        results.push(result);
+        expect(pulled - results.length).toBeLessThanOrEqual(4);
+        if (results.length === 10) {
+          break;
+        }
+      }
+      expect(results).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      expect(returned).toEqual(true);
+      await throttle.onIdle();
+    });
+
+    it('fails on the first error, dropping the rest', async () => {
+      const throttle = throttledQueue({ maxPerInterval: 1, interval: 1000 });
+      const executed: number[] = [];
+      const results: number[] = [];
+      await expect((async () => {
+        for await (const result of throttle.map([1, 2, 3, 4], (item) => {
+          executed.push(item);
+          if (item === 2) {
+            throw new Error('failed');
+          }
+          return item;
+        })) {
+          results.push(result);
+        }
+      })()).rejects.toThrow('failed');
+      expect(results).toEqual([1]);
+      expect(executed).toEqual([1, 2]);
+      expect(throttle.size).toEqual(0);
+    });
+
+    it('throttles a TransformStream', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 2, interval: 1000, clock });
+      const readable = new ReadableStream<number>({
+        start: (controller) => {
+          [1, 2, 3].forEach((item) => controller.enqueue(item));
+          controller.close();
+        },
+      });
+      const reader = readable
+        .pipeThrough(throttle.transformStream((item: number) => `${item}@${clock.now()}`))
+        .getReader();
+      const collected = (async () => {
+        const results: string[] = [];
+        let next = await reader.read();
+        while (!next.done) {
+          results.push(next.value);
+          next = await reader.read();
+        }
+        return results;
+      })();
+      await clock.runAll();
+      expect(await collected).toEqual(['1@0', '2@0', '3@1000']);
+    });
+
+    it('throttles a Node.js Transform', async () => {
+      const throttle = throttledQueue({ maxPerInterval: 2, interval: 100 });
+      const transform = await throttle.nodeTransform((item: number, { intervalStart }) => ({ item, intervalStart }));
+      [1, 2, 3].forEach((item) => transform.write(item));
+      transform.end();
+      const results: Array<{ item: number, intervalStart: number }> = [];
+      for await (const result of transform as AsyncIterable<{ item: number, intervalStart: number }>) {
+        results.push(result);
+      }
+      expect(results.map(({ item }) => item)).toEqual([1, 2, 3]);
+      expect(results[2].intervalStart - results[0].intervalStart).toBeGreaterThanOrEqual(100);
+    });
+  });
+
+  describe.concurrent('wrapped functions', () => {
+
+    it('enqueues each call with its arguments', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 2, interval: 1000, clock });
+      const add = throttle.wrap(function (a: number, b: number) {
+        return `${a + b}@${this.intervalStart}`;
+      });
+      const results = Promise.all([add(1, 2), add(3, 4), add(5, 6)]);
+      await clock.runAll();
+      const sums: string[] = await results;
+      expect(sums).toEqual(['3@0', '7@0', '11@1000']);
+    });
+
+    it('dedupes calls with the same key until they settle', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 1, interval: 1000, clock });
+      const fetched: string[] = [];
+      const fetchUser = throttle.wrap((id: string) => {
+        fetched.push(id);
+        return { id };
+      }, { key: (id) => id });
+      const first = fetchUser('a');
+      expect(fetchUser('a')).toBe(first);
+      const other = fetchUser('b');
+      await clock.runAll();
+      expect(await first).toEqual({ id: 'a' });
+      expect(await other).toEqual({ id: 'b' });
+      expect(fetched).toEqual(['a', 'b']);
+
+      const again = fetchUser('a');
+      expect(again).not.toBe(first);
+      await clock.runAll();
+      await again;
+      expect(fetched).toEqual(['a', 'b', 'a']);
+    });
+
+    it('creates a queue for a single function', async () => {
+      const clock = createTestClock();
+      const upload = throttledFunction((files: string[]) => files.length, {
+        maxPerInterval: 3,
+        interval: 1000,
+        cost: (files) => files.length,
+        clock,
+      });
+      const startTimes: number[] = [];
+      const uploads = Promise.all([['a', 'b'], ['c', 'd'], ['e']].map((files) => upload(files).then((count) => {
+        startTimes.push(clock.now());
+        return count;
+      })));
+      await clock.runAll();
+      expect(await uploads).toEqual([2, 2, 1]);
+      expect(startTimes).toEqual([0, 1000, 1000]);
+      expect(upload.queue.stats().succeeded).toEqual(3);
+    });
+  });
+
+  describe.concurrent('runtime options', () => {
+
+    it('raises the limit without dropping queued functions', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 1, interval: 1000, clock });
+      const startTimes: number[] = [];
+      const promise = Promise.all(Array.from({ length: 5 }).map(() => throttle(() => startTimes.push(clock.now()))));
+      await clock.advance(0);
+      expect(startTimes).toEqual([0]);
+      throttle.setOptions({ maxPerInterval: 3 });
+      await clock.runAll();
+      await promise;
+      expect(startTimes).toEqual([0, 0, 0, 1000, 1000]);
+    });
+
+    it('lengthens the interval of queued functions', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 1, interval: 1000, clock });
+      const startTimes: number[] = [];
+      const promise = Promise.all(Array.from({ length: 3 }).map(() => throttle(() => startTimes.push(clock.now()))));
+      await clock.advance(0);
+      throttle.setOptions({ interval: 5000 });
+      await clock.runAll();
+      await promise;
+      expect(startTimes).toEqual([0, 5000, 10000]);
+    });
+
+    it('keeps functions evenly spaced', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        maxPerInterval: 2,
+        interval: 1000,
+        evenlySpaced: true,
+        clock,
+      });
+      throttle.setOptions({ maxPerInterval: 4 });
+      const startTimes: number[] = [];
+      const promise = Promise.all(Array.from({ length: 4 }).map(() => throttle(() => startTimes.push(clock.now()))));
+      await clock.runAll();
+      await promise;
+      expect(startTimes).toEqual([0, 250, 500, 750]);
+      expect(throttle.rate).toEqual(1);
+
+      throttle.setOptions({ evenlySpaced: false });
+      expect(throttle.rate).toEqual(4);
+    });
+
+    it('validates the new options', () => {
+      const throttle = throttledQueue({ maxPerInterval: 2, interval: 1000, adaptive: true });
+      expect(() => throttle.setOptions({ maxPerInterval: 0 })).toThrow('"maxPerInterval" must be a positive integer.');
+      expect(() => throttle.setOptions({ interval: -1 })).toThrow('"interval" cannot be negative.');
+      expect(() => throttle.setOptions({ evenlySpaced: true })).toThrow(
+        '"adaptive" cannot be used with "evenlySpaced".',
+      );
+      expect(throttle.rate).toEqual(2);
+      const limited = throttledQueue({ limits: [{ maxPerInterval: 2, interval: 1000 }] });
+      expect(() => limited.setOptions({ interval: 500 })).toThrow(
+        '"limits" cannot be used with "maxPerInterval" or "interval".',
+      );
+    });
+  });
+
+  describe.concurrent('retry predicates', () => {
+
+    it('retries errors that retryOn accepts', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        maxPerInterval: 10,
+        interval: 1000,
+        clock,
+        retryOn: (error) => (error as Error).message === 'ECONNRESET',
+      });
+      const retried = throttle(({ attempt }) => {
+        if (attempt < 3) {
+          throw new Error('ECONNRESET');
+        }
+        return clock.now();
+      });
+      const rejected = throttle(() => {
+        throw new Error('Not found');
+      });
+      const assertion = expect(rejected).rejects.toThrow('Not found');
+      await clock.runAll();
+      expect(await retried).toEqual(2000);
+      await assertion;
+    });
+
+    it('converts errors with mapError', async () => {
+      const clock = createTestClock();
+      const events: string[] = [];
+      const throttle = throttledQueue({
+        maxPerInterval: 10,
+        interval: 1000,
+        clock,
+        mapError: (error) => {
+          if ((error as { status?: number }).status === 503) {
+            return new RetryError({ pauseQueue: true, retryAfter: 5000 });
+          }
+          return new Error(`Wrapped: ${(error as Error).message}`);
+        },
+        hooks: {
+          onPause: ({ until }) => events.push(`pause until ${until as number}`),
+        },
+      });
+      const paused = throttle(({ attempt }) => {
+        if (attempt === 1) {
+          throw Object.assign(new Error('Service unavailable'), { status: 503 });
+        }
+        return clock.now();
+      });
+      const wrapped = throttle(() => {
+        throw new Error('Bad request');
+      });
+      const assertion = expect(wrapped).rejects.toThrow('Wrapped: Bad request');
+      await clock.runAll();
+      expect(await paused).toEqual(5000);
+      await assertion;
+      expect(events).toEqual(['pause until 5000']);
+    });
+
+    it('rejects with the history of every attempt', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        maxPerInterval: 10,
+        interval: 1000,
+        maxRetries: 2,
+        clock,
+        retryOn: () => true,
+      });
+      const promise = throttle(({ attempt }) => {
+        throw new Error(`Attempt ${attempt} failed`);
+      });
+      const assertion = expect(promise).rejects.toBeInstanceOf(RetryError);
+      await clock.runAll();
+      await assertion;
+      const error = await promise.catch((err: RetryError) => err);
+      expect(error.options.cause).toEqual(new Error('Attempt 3 failed'));
+      expect(error.attempts).toEqual([
+        {
+          attempt: 1, error: new Error('Attempt 1 failed'), startedAt: 0, failedAt: 0,
+        },
+        {
+          attempt: 2, error: new Error('Attempt 2 failed'), startedAt: 1000, failedAt: 1000,
+        },
+        {
+          attempt: 3, error: new Error('Attempt 3 failed'), startedAt: 2000, failedAt: 2000,
+        },
+      ]);
+    });
+
+    it('rejects errors that are not retried with the history of every attempt', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        maxPerInterval: 10,
+        interval: 1000,
+        clock,
+        retryOn: (error, attempt) => attempt < 3,
+      });
+      const promise = throttle(({ attempt }) => {
+        throw new Error(`Attempt ${attempt} failed`);
+      });
+      const assertion = expect(promise).rejects.toThrow('Attempt 3 failed');
+      await clock.runAll();
+      await assertion;
+      const error = await promise.catch((err: Error & { attempts?: RetryAttempt[] }) => err);
+      expect(error.attempts?.map(({ attempt, error: attemptError }) => [attempt, attemptError])).toEqual([
+        [1, new Error('Attempt 1 failed')],
+        [2, new Error('Attempt 2 failed')],
+        [3, new Error('Attempt 3 failed')],
+      ]);
+    });
+  });
+
+  describe.concurrent('circuit breaker', () => {
+
+    it('opens after too many failures and fails fast', async () => {
+      const clock = createTestClock();
+      const states: string[] = [];
+      const throttle = throttledQueue({
+        maxPerInterval: 1,
+        interval: 100,
+        maxRetries: 0,
+        clock,
+        circuitBreaker: { threshold: 2, window: 1000, cooldown: 5000 },
+        hooks: { onCircuitChange: ({ state }) => states.push(state) },
+      });
+      const fail = () => {
+        throw new Error('Service unavailable');
+      };
+      const results = Promise.allSettled([throttle(fail), throttle(fail), throttle(() => 1), throttle(() => 2)]);
+      await clock.advance(100);
+      expect((await results).map((result) => (result as PromiseRejectedResult).reason)).toEqual([
+        new Error('Service unavailable'),
+        new Error('Service unavailable'),
+        new CircuitOpenError(),
+        new CircuitOpenError(),
+      ]);
+      expect(throttle.circuit).toEqual('open');
+      await expect(throttle(() => 3)).rejects.toBeInstanceOf(CircuitOpenError);
+
+      await clock.advance(5000);
+      expect(throttle.circuit).toEqual('half-open');
+      const probe = throttle(() => 4);
+      await expect(throttle(() => 5)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(await probe).toEqual(4);
+      expect(throttle.circuit).toEqual('closed');
+      expect(states).toEqual(['open', 'half-open', 'closed']);
+      await clock.runAll();
+    });
+
+    it('ignores executions that started before the circuit opened', async () => {
+      const clock = createTestClock();
+      const states: string[] = [];
+      const throttle = throttledQueue({
+        maxRetries: 0,
+        clock,
+        circuitBreaker: { threshold: 1, cooldown: 100 },
+        hooks: { onCircuitChange: ({ state }) => states.push(state) },
+      });
+      const slow = throttle(() => new Promise((resolve) => {
+        clock.setTimeout(() => resolve('slow'), 150);
+      }));
+      await expect(throttle(() => {
+        throw new Error('Service unavailable');
+      })).rejects.toThrow('Service unavailable');
+      expect(throttle.circuit).toEqual('open');
+      await clock.advance(150);
+      expect(await slow).toEqual('slow');
+      expect(throttle.circuit).toEqual('half-open');
+
+      expect(await throttle(() => 'probe')).toEqual('probe');
+      expect(throttle.circuit).toEqual('closed');
+      expect(states).toEqual(['open', 'half-open', 'closed']);
+    });
+
+    it('opens again when the probe fails', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        maxRetries: 0,
+        clock,
+        circuitBreaker: { threshold: 1, cooldown: 1000 },
+      });
+      const fail = () => {
+        throw new Error('Service unavailable');
+      };
+      await expect(throttle(fail)).rejects.toThrow('Service unavailable');
+      expect(throttle.circuit).toEqual('open');
+      await clock.advance(1000);
+      await expect(throttle(fail)).rejects.toThrow('Service unavailable');
+      expect(throttle.circuit).toEqual('open');
+      await clock.advance(999);
+      expect(throttle.circuit).toEqual('open');
+      await clock.advance(1);
+      expect(throttle.circuit).toEqual('half-open');
+    });
+
+    it('holds functions while open', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        clock,
+        retryOn: () => true,
+        backoff: { min: 100 },
+        circuitBreaker: { threshold: 1, cooldown: 1000, whenOpen: 'hold' },
+      });
+      const startTimes: number[] = [];
+      const flaky = throttle(({ attempt }) => {
+        startTimes.push(clock.now());
+        if (attempt === 1) {
+          throw new Error('Service unavailable');
+        }
+        return 'flaky';
+      });
+      await clock.advance(0);
+      expect(throttle.circuit).toEqual('open');
+      const held = [throttle(() => startTimes.push(clock.now())), throttle(() => startTimes.push(clock.now()))];
+      await clock.runAll();
+      expect(await flaky).toEqual('flaky');
+      await Promise.all(held);
+      expect(startTimes).toEqual([0, 1000, 1000, 1000]);
+      expect(throttle.circuit).toEqual('closed');
+    });
+
+    it('only counts failures', async () => {
+      const throttle = throttledQueue({
+        maxRetries: 0,
+        circuitBreaker: { threshold: 1, isFailure: (error) => (error as { status?: number }).status !== 404 },
+      });
+      await expect(throttle(() => {
+        throw Object.assign(new Error('Not found'), { status: 404 });
+      })).rejects.toThrow('Not found');
+      expect(throttle.circuit).toEqual('closed');
+      expect(() => throttledQueue({ circuitBreaker: { threshold: 0 } })).toThrow(
+        '"circuitBreaker.threshold" must be a positive integer.',
+      );
+    });
+  });
+
+  describe.concurrent('durations and rates', () => {
+
+    it('converts durations to milliseconds', () => {
+      expect(milliseconds('250')).toEqual(250);
+      expect(days(1)).toEqual(hours(24));
+      expect(days('0.5')).toEqual(hours(12));
+      expect(parseDuration('500ms')).toEqual(500);
+      expect(parseDuration('1h30m')).toEqual(hours(1) + minutes(30));
+      expect(parseDuration('1.5d')).toEqual(hours(36));
+      expect(parseDuration('1d2h3m4s5ms' as DurationString)).toEqual(days(1) + hours(2) + minutes(3) + seconds(4) + 5);
+      expect(() => parseDuration('1 hour' as DurationString)).toThrow('"1 hour" is not a valid duration.');
+      expect(() => parseDuration('90' as DurationString)).toThrow('"90" is not a valid duration.');
+      expect(() => parseDuration('1h1h')).toThrow('"1h1h" is not a valid duration.');
+      expect(() => parseDuration('30m1h')).toThrow('"30m1h" is not a valid duration.');
+      expect(() => parseDuration('1s1ms1s' as DurationString)).toThrow('"1s1ms1s" is not a valid duration.');
+      expect(() => days('one')).toThrow('"one" is not a valid number.');
+    });
+
+    it('converts rates to options', () => {
+      expect(parseRate('100/min')).toEqual({ maxPerInterval: 100, interval: minutes(1) });
+      expect(parseRate('500/10m')).toEqual({ maxPerInterval: 500, interval: minutes(10) });
+      expect(parseRate('10/second')).toEqual({ maxPerInterval: 10, interval: seconds(1) });
+      expect(parseRate('5/1h30m')).toEqual({ maxPerInterval: 5, interval: minutes(90) });
+      expect(() => parseRate('100/minutes' as RateString)).toThrow('"100/minutes" is not a valid rate.');
+      expect(() => parseRate('100 per minute' as RateString)).toThrow('"100 per minute" is not a valid rate.');
+      expect(() => parseRate('1.5/s' as RateString)).toThrow('"1.5/s" is not a valid rate.');
+      expect(() => parseRate('1/0s')).toThrow('"1/0s" is not a valid rate.');
+      expect(() => parseRate('1/0h0m')).toThrow('"1/0h0m" is not a valid rate.');
+      expect(() => parseRate('1/1m1m')).toThrow('"1/1m1m" is not a valid rate.');
+      expect(() => throttledQueue('1/0s')).toThrow('"1/0s" is not a valid rate.');
+      expect(() => throttledQueue('0/s')).toThrow('"maxPerInterval" must be a positive integer.');
+    });
+
+    it('creates a queue from a rate', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue('2/10s', { clock });
+      const startTimes: number[] = [];
+      const promise = Promise.all(Array.from({ length: 3 }).map(() => throttle(() => startTimes.push(clock.now()))));
+      await clock.runAll();
+      await promise;
+      expect(startTimes).toEqual([0, 0, 10000]);
+    });
+  });
+
+  describe.concurrent('caching', () => {
+
+    it('shares one execution between overlapping calls with the same key', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 1, interval: 1000, clock });
+      const fetched: string[] = [];
+      const fetchUser = (id: string) => throttle(() => {
+        fetched.push(id);
+        return { id };
+      }, undefined, { cacheKey: id });
+      const first = fetchUser('a');
+      expect(fetchUser('a')).toBe(first);
+      const other = fetchUser('b');
+      await clock.runAll();
+      expect(await first).toEqual({ id: 'a' });
+      expect(await other).toEqual({ id: 'b' });
+      expect(fetched).toEqual(['a', 'b']);
+
+      const again = fetchUser('a');
+      expect(again).not.toBe(first);
+      await clock.runAll();
+      await again;
+      expect(fetched).toEqual(['a', 'b', 'a']);
+    });
+
+    it('returns cached results without going through the queue until they expire', async () => {
+      const clock = createTestClock();
+      let enqueued = 0;
+      const throttle = throttledQueue({
+        maxPerInterval: 1,
+        interval: 1000,
+        clock,
+        cache: { ttl: 5000 },
+        hooks: {
+          onEnqueue: () => {
+            enqueued++;
+          },
+        },
+      });
+      let calls = 0;
+      const load = () => throttle(() => ++calls, undefined, { cacheKey: 'config' });
+      const first = load();
+      await clock.runAll();
+      expect(await first).toEqual(1);
+
+      const cached = load();
+      expect(throttle.size).toEqual(0);
+      expect(await cached).toEqual(1);
+      expect(enqueued).toEqual(1);
+
+      await clock.advance(5000);
+      const expired = load();
+      await clock.runAll();
+      expect(await expired).toEqual(2);
+      expect(enqueued).toEqual(2);
+    });
+
+    it('evicts the least recently used result', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({
+        maxPerInterval: 10, interval: 1000, clock, cache: { ttl: 60000, maxSize: 2 },
+      });
+      const fetched: string[] = [];
+      const fetch = (key: string) => throttle(() => {
+        fetched.push(key);
+      }, undefined, { cacheKey: key });
+      await Promise.all([fetch('a'), fetch('b')]);
+      await fetch('a');
+      await fetch('c');
+      await Promise.all([fetch('a'), fetch('c')]);
+      expect(fetched).toEqual(['a', 'b', 'c']);
+      await fetch('b');
+      expect(fetched).toEqual(['a', 'b', 'c', 'b']);
+    });
+
+    it('does not cache failures', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 10, interval: 1000, clock, cache: { ttl: 60000 } });
+      let calls = 0;
+      const load = () => throttle(() => {
+        calls++;
+        if (calls === 1) {
+          throw new Error('failed');
+        }
+        return calls;
+      }, undefined, { cacheKey: 'key' });
+      await expect(load()).rejects.toThrow('failed');
+      expect(await load()).toEqual(2);
+      expect(await load()).toEqual(2);
+    });
+
+    it('clears cached results', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 10, interval: 1000, clock, cache: { ttl: 60000 } });
+      let calls = 0;
+      const load = (key: string) => throttle(() => ++calls, undefined, { cacheKey: key });
+      await Promise.all([load('a'), load('b')]);
+      throttle.clearCache('a');
+      expect(await load('a')).toEqual(3);
+      expect(await load('b')).toEqual(2);
+      throttle.clearCache();
+      expect(await load('b')).toEqual(4);
+    });
+
+    it('only aborts the shared execution once every caller has aborted', async () => {
+      const clock = createTestClock();
+      const throttle = throttledQueue({ maxPerInterval: 1, interval: 1000, clock });
+      await throttle(() => {});
+      let calls = 0;
+      const load = (signal?: AbortSignal) => throttle(() => ++calls, undefined, { cacheKey: 'key', signal });
+      const firstController = new AbortController();
+      const first = load(firstController.signal);
+      const second = load();
+      firstController.abort('first');
+      await expect(first).rejects.toEqual(new AbortError('first'));
+      await clock.runAll();
+      expect(await second).toEqual(1);
+
+      const controllers = [new AbortController(), new AbortController()];
+      const aborted = controllers.map((controller) => load(controller.signal));
+      controllers.forEach((controller) => controller.abort('all'));
+      await expect(Promise.allSettled(aborted)).resolves.toEqual([
+        { status: 'rejected', reason: new AbortError('all') },
+        { status: 'rejected', reason: new AbortError('all') },
+      ]);
+      await clock.runAll();
+      expect(throttle.pending).toEqual(0);
+      expect(calls).toEqual(1);
+    });
+
+    it('validates the cache options', () => {
+      expect(() => throttledQueue({ maxPerInterval: 1, interval: 1000, cache: { ttl: -1 } }))
+        .toThrow('"cache.ttl" cannot be negative.');
+      expect(() => throttledQueue({ maxPerInterval: 1, interval: 1000, cache: { maxSize: 0 } }))
+        .toThrow('"cache.maxSize" must be a positive integer.');
+    });
+  });
 });
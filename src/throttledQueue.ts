@@ -1,19 +1,101 @@
+import {
+  combineStores,
+  getSharedResource,
+  memoryStore,
+  RateLimitStrategy,
+  ThrottleStore,
+  ThrottleStoreFactory,
+} from './stores';
+import { parseRateLimitHeaders, ResponseLike } from './rateLimitHeaders';
+import { PersistedJob, QueueStorage } from './storage';
+import { Clock, systemClock } from './clock';
+import {
+  createNodeTransform,
+  createTransformStream,
+  mapIterable,
+  NodeTransform,
+  StreamOptions,
+  StreamRunner,
+} from './streams';
+import { parseRate, RateString } from './durations';
+
+export {
+  memoryStore,
+  sharedMemoryStore,
+  createSharedStoreBuffer,
+  SHARED_STORE_BYTE_LENGTH,
+  fileStore,
+} from './stores';
+export type {
+  RateLimitStrategy,
+  ThrottleStore,
+  ThrottleStoreOptions,
+  ThrottleStoreFactory,
+} from './stores';
+export { parseRateLimitHeaders } from './rateLimitHeaders';
+export type { HeadersLike, ResponseLike, RateLimitInfo } from './rateLimitHeaders';
+export { memoryStorage, fileStorage } from './storage';
+export type { PersistedJob, QueueStorage } from './storage';
+export { systemClock, createTestClock } from './clock';
+export type { Clock, TestClock } from './clock';
+export type { NodeTransform, StreamOptions } from './streams';
+export {
+  ms,
+  seconds,
+  minutes,
+  hours,
+  days,
+  parseDuration,
+  parseRate,
+} from './durations';
+export type {
+  DurationUnit,
+  DurationString,
+  RateUnit,
+  RateString,
+} from './durations';
+
 export type QueueItemContext<State> = {
   intervalStart: number,
+  /**
+   * When the interval of each of the queue's `limits` started, in the same order.
+   */
+  intervalStarts: number[],
   state: State,
+  /**
+   * Starts at 1, and goes up every time the function is retried.
+   */
+  attempt: number,
+  /**
+   * Aborted with a `TimeoutError` when the execution takes longer than its `timeout`.
+   * Only set when the function has a `timeout`, so that runtimes without `AbortController` work without one.
+   */
+  signal?: AbortSignal,
 };
 
 export type QueueItem<State, Return>  = (context: QueueItemContext<State>) => Promise<Return> | Return;
 
+/**
+ * Executed for each item of a stream, receiving the item along with the usual context.
+ */
+export type StreamItem<Item, Return> = (
+  item: Item,
+  context: QueueItemContext<Record<string, unknown>>,
+) => Promise<Return> | Return;
+
 export type ThrottledQueueOptions = {
   /**
-   * Max number of executions for a given interval.
+   * Max number of executions for a given interval, or the max total cost when executions have a `cost`.
    */
   maxPerInterval?: number,
   /**
    * Duration in milliseconds.
    */
   interval?: number,
+  /**
+   * Several limits that must all allow an execution before it starts, used instead of `maxPerInterval` and `interval`.
+   */
+  limits?: RateLimit[],
   /**
    * Space out the executions evenly.
    */
@@ -26,192 +108,2228 @@ export type ThrottledQueueOptions = {
    * How many times can `manager.pauseAndRetry` be called before throwing a `RetryError`.
    */
   maxRetriesWithPauses?: number,
+  /**
+   * Max number of executions that can be in-flight at the same time.
+   */
+  maxConcurrent?: number,
+  /**
+   * Named priorities that can be passed as the `priority` of an enqueued function.
+   */
+  lanes?: Record<string, number>,
+  /**
+   * Duration in milliseconds a queued function must wait for its priority to be raised by 1, so it cannot starve.
+   */
+  priorityAging?: number,
+  /**
+   * The algorithm used to enforce `maxPerInterval`. Defaults to `'fixed-window'`.
+   */
+  strategy?: RateLimitStrategy,
+  /**
+   * Max number of executions that can start at once with the `'token-bucket'` strategy. Defaults to `maxPerInterval`.
+   */
+  burst?: number,
+  /**
+   * Where the rate limit's state is kept. Defaults to `memoryStore`.
+   */
+  store?: ThrottleStoreFactory,
+  /**
+   * How long to wait before retrying when a `RetryError` has no `retryAfter`. Defaults to `'constant'`.
+   */
+  backoff?: BackoffStrategy | BackoffOptions,
+  /**
+   * Retry the function when it throws an error other than a `RetryError` that this returns `true` for.
+   */
+  retryOn?: (error: unknown, attempt: number) => boolean,
+  /**
+   * Converts the errors thrown by functions, e.g. into a `RetryError` that pauses the queue.
+   */
+  mapError?: (error: unknown, attempt: number) => unknown,
+  /**
+   * Functions called as the queue and its functions go through their lifecycle.
+   */
+  hooks?: ThrottledQueueHooks,
+  /**
+   * Lower the rate whenever a `RetryError` pauses the queue, and raise it back up after each interval without one.
+   */
+  adaptive?: boolean | AdaptiveOptions,
+  /**
+   * Stop executing functions for a while once too many of them fail, e.g. while the API is down.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions,
+  /**
+   * Max number of functions that can wait in the queue, including functions queued again to be retried.
+   */
+  maxQueueSize?: number,
+  /**
+   * What happens to a function enqueued while the queue is full. Defaults to `'reject'`.
+   */
+  overflow?: OverflowPolicy,
+  /**
+   * Duration in milliseconds an execution can take before it is rejected with a `TimeoutError`.
+   */
+  timeout?: number,
+  /**
+   * Duration in milliseconds a function can wait in the queue to start before it is rejected with a
+   * `QueueWaitTimeoutError`.
+   */
+  maxWait?: number,
+  /**
+   * Tells the time and waits. Defaults to `systemClock`.
+   */
+  clock?: Clock,
+  /**
+   * How results are cached for functions enqueued with a `cacheKey`.
+   */
+  cache?: CacheOptions,
+};
+
+export type CacheOptions = {
+  /**
+   * Duration in milliseconds a successful result stays cached. Defaults to 0, so that only overlapping calls share it.
+   */
+  ttl?: number,
+  /**
+   * Max number of cached results, beyond which the least recently used one is evicted. Defaults to 1000.
+   */
+  maxSize?: number,
+};
+
+export type OverflowPolicy = 'reject' | 'drop-oldest' | 'drop-newest' | 'block';
+
+export type RateLimit = {
+  maxPerInterval: number,
+  /**
+   * Duration in milliseconds.
+   */
+  interval: number,
+  /**
+   * Defaults to the queue's `strategy`.
+   */
+  strategy?: RateLimitStrategy,
+  /**
+   * Defaults to `maxPerInterval`.
+   */
+  burst?: number,
+  /**
+   * Defaults to the queue's `store`.
+   */
+  store?: ThrottleStoreFactory,
+};
+
+export type AdaptiveOptions = {
+  /**
+   * The lowest rate. Defaults to 1.
+   */
+  min?: number,
+  /**
+   * The highest rate. Defaults to `maxPerInterval`, or the `maxPerInterval` of the first limit.
+   */
+  max?: number,
+  /**
+   * The rate to start at. Defaults to `max`.
+   */
+  initial?: number,
+  /**
+   * How much the rate is raised after each interval without a pause. Defaults to 1.
+   */
+  increase?: number,
+  /**
+   * What the rate is multiplied by when a `RetryError` pauses the queue. Defaults to 0.5.
+   */
+  decrease?: number,
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitBreakerOptions = {
+  /**
+   * Number of failed executions within the `window` that opens the circuit. Defaults to 5.
+   */
+  threshold?: number,
+  /**
+   * Duration in milliseconds in which failed executions are counted. Defaults to 60 seconds.
+   */
+  window?: number,
+  /**
+   * Duration in milliseconds the circuit stays open before a single execution is let through to probe it.
+   * Defaults to 30 seconds.
+   */
+  cooldown?: number,
+  /**
+   * Whether functions are rejected with a `CircuitOpenError` while the circuit is open, or held in the queue until it
+   * closes. Defaults to `'reject'`.
+   */
+  whenOpen?: 'reject' | 'hold',
+  /**
+   * Whether an error counts as a failed execution. Defaults to counting every error.
+   */
+  isFailure?: (error: unknown) => boolean,
+};
+
+export type BackoffStrategy = 'constant' | 'linear' | 'exponential' | 'decorrelated-jitter';
+
+export type BackoffOptions = {
+  strategy?: BackoffStrategy,
+  /**
+   * The first and shortest wait, in milliseconds. Defaults to `interval`, or `DEFAULT_WAIT` if not set.
+   */
+  min?: number,
+  /**
+   * The longest wait, in milliseconds.
+   */
+  max?: number,
+  /**
+   * Randomize each wait by up to half, within `min` and `max`, so that executions that failed together do not retry
+   * together.
+   */
+  jitter?: boolean,
+};
+
+export type EnqueueOptions<State = Record<string, unknown>> = {
+  /**
+   * Aborting this signal removes the function from the queue and rejects with an `AbortError`.
+   */
+  signal?: AbortSignal,
+  /**
+   * Functions with a higher priority, or belonging to a lane with a higher priority, are executed first.
+   */
+  priority?: number | string,
+  /**
+   * How much of an interval's `maxPerInterval` budget the function uses up. Defaults to 1.
+   */
+  cost?: number | ((state: State) => number),
+  /**
+   * Overrides the queue's `timeout` for this function.
+   */
+  timeout?: number,
+  /**
+   * Overrides the queue's `maxWait` for this function.
+   */
+  maxWait?: number,
+  /**
+   * Functions enqueued with the same key share one execution while it is pending, and its result while it is cached.
+   * A cached result is returned without going through the queue. Each function's `signal` only rejects its own
+   * promise, and the shared execution is only aborted once every function waiting for it has been aborted.
+   */
+  cacheKey?: string,
+};
+
+/**
+ * A function that can be wrapped by a queue, which receives the context of its execution as `this`.
+ */
+export type WrappableFunction<Args extends unknown[], Return> = (
+  this: QueueItemContext<Record<string, unknown>>,
+  ...args: Args
+) => Promise<Return> | Return;
+
+export type WrapOptions<Args extends unknown[]> = Omit<EnqueueOptions, 'cost' | 'cacheKey'> & {
+  /**
+   * How much of an interval's `maxPerInterval` budget each call uses up. Defaults to 1.
+   */
+  cost?: number | ((...args: Args) => number),
+  /**
+   * Returns a key for the arguments of a call. A call with the same key as a call that has not settled yet
+   * is not enqueued, and returns the same promise instead.
+   */
+  key?: (...args: Args) => unknown,
+};
+
+export type MapOptions<Item> = Omit<EnqueueOptions, 'signal' | 'cost' | 'cacheKey'> & StreamOptions & {
+  /**
+   * How much of an interval's `maxPerInterval` budget each item uses up. Defaults to 1.
+   */
+  cost?: number | ((item: Item) => number),
+};
+
+export type QueueItemEvent = {
+  state: Record<string, unknown>,
+  /**
+   * The number of the latest execution, or 0 if the function has not executed yet.
+   */
+  attempt: number,
+  /**
+   * When the function was enqueued.
+   */
+  enqueuedAt: number,
+  /**
+   * Duration in milliseconds the function spent waiting in the queue before its latest execution.
+   */
+  queuedDuration: number,
+};
+
+export type ThrottledQueueHooks = {
+  onEnqueue?: (event: QueueItemEvent) => void,
+  onStart?: (event: QueueItemEvent) => void,
+  /**
+   * Called with the duration in milliseconds of the successful execution.
+   */
+  onSuccess?: (event: QueueItemEvent & { duration: number }) => void,
+  /**
+   * Called when the function rejects for good, with the duration in milliseconds of its last execution.
+   */
+  onError?: (event: QueueItemEvent & { duration: number, error: unknown }) => void,
+  /**
+   * Called when the function threw a `RetryError`, with how long it will wait before being queued again.
+   */
+  onRetry?: (event: QueueItemEvent & { error: RetryError, wait: number, pauseQueue: boolean }) => void,
+  /**
+   * Called when the function is removed from the queue without settling, e.g. when it is aborted.
+   */
+  onDrop?: (event: QueueItemEvent & { reason: unknown }) => void,
+  /**
+   * Called when the queue is paused, with when it will resume, or `null` if it waits for `resume`.
+   */
+  onPause?: (event: { until: number | null }) => void,
+  onResume?: () => void,
+  /**
+   * Called when an adaptive queue changes its rate.
+   */
+  onRateChange?: (event: { rate: number }) => void,
+  /**
+   * Called when the circuit breaker opens, half-opens or closes.
+   */
+  onCircuitChange?: (event: { state: CircuitState }) => void,
+  /**
+   * Called when another hook throws. Without it, errors thrown by hooks are ignored.
+   */
+  onHookError?: (event: { hook: keyof ThrottledQueueHooks, error: unknown }) => void,
+};
+
+export type QueueStats = {
+  size: number,
+  pending: number,
+  inFlight: number,
+  paused: boolean,
+  /**
+   * Number of functions enqueued.
+   */
+  enqueued: number,
+  /**
+   * Number of executions started, including retries.
+   */
+  started: number,
+  succeeded: number,
+  failed: number,
+  retried: number,
+  dropped: number,
+  /**
+   * Average duration in milliseconds executions waited in the queue.
+   */
+  averageQueuedDuration: number,
+  /**
+   * Average duration in milliseconds of finished executions.
+   */
+  averageDuration: number,
+  /**
+   * Max number of executions per interval of the first limit, which changes over time if the queue is adaptive.
+   */
+  rate: number,
 };
 
 export const DEFAULT_WAIT = 500;
+export const DEFAULT_PRIORITY_AGING = 1000;
 export const DEFAULT_RETRY_LIMIT = 30;
 
 export type RetryErrorOptions = {
   retryAfter?: number | null,
   pauseQueue?: boolean,
   message?: string,
+  /**
+   * The error that was retried, when the function threw something other than a `RetryError`.
+   */
+  cause?: unknown,
+};
+
+export type RetryAttempt = {
+  attempt: number,
+  /**
+   * What the execution threw, before `mapError`.
+   */
+  error: unknown,
+  startedAt: number,
+  failedAt: number,
 };
 
 export class RetryError extends Error {
   public readonly options: RetryErrorOptions;
 
+  /**
+   * Every failed execution of the function, set once the queue stops retrying it.
+   */
+  public readonly attempts?: RetryAttempt[];
+
   constructor(options: RetryErrorOptions = {}) {
     super(options.message ?? 'Maximum retry limit reached.');
     this.options = options;
   }
-}
 
-const INTERNAL_STATE = Symbol('internal_state');
-
-export function throttledQueue(options: ThrottledQueueOptions = {}) {
-  const {
-    interval = 0,
-    maxPerInterval = Infinity,
-    evenlySpaced = false,
-    maxRetries = DEFAULT_RETRY_LIMIT,
-    maxRetriesWithPauses = DEFAULT_RETRY_LIMIT,
-  } = options;
-  if (maxPerInterval < 1) {
-    throw new Error('"maxPerInterval" must be a positive integer.');
-  }
-  if (interval < 0) {
-    throw new Error('"interval" cannot be negative.');
-  }
-  if (maxRetries < 0) {
-    throw new Error('"maxRetries" cannot be negative.');
-  }
-  if (maxRetriesWithPauses < 0) {
-    throw new Error('"maxRetriesWithPauses" cannot be negative.');
-  }
   /**
-   * If all requests should be evenly spaced, adjust to suit.
+   * Creates a `RetryError` that pauses the queue until the response's rate limit headers allow another request.
    */
-  if (evenlySpaced) {
-    return throttledQueue({
+  static fromResponse(response: ResponseLike, options: Omit<RetryErrorOptions, 'retryAfter'> = {}): RetryError {
+    const { retryAfter, resetAfter } = parseRateLimitHeaders(response.headers);
+    return new RetryError({
+      pauseQueue: true,
       ...options,
-      interval: Math.ceil(interval / maxPerInterval),
-      maxPerInterval: 1,
-      evenlySpaced: false,
+      retryAfter: retryAfter ?? resetAfter,
     });
   }
-  const queue: Array<() => void> = [];
-  let lastIntervalStart = 0;
-  let numPerInterval = 0;
-  let timeout: number | undefined;
-  /**
-   * Gets called at a set interval to remove items from the queue.
-   * This is a self-adjusting timer, since the browser's setTimeout is highly inaccurate.
-   */
-  const dequeue = () => {
-    timeout = undefined;
-    const intervalEnd = lastIntervalStart + interval;
-    const now = Date.now();
-    /**
-     * Adjust the timer if it was called too early.
-     */
-    if (now < intervalEnd) {
-      timeout = setTimeout(dequeue, intervalEnd - now);
-      return;
-    }
+}
 
-    lastIntervalStart = now;
-    numPerInterval = 0;
+export class AbortError extends Error {
+  public readonly reason: unknown;
 
-    for (const callback of queue.splice(0, maxPerInterval)) {
-      numPerInterval++;
-      callback();
-    }
-    if (queue.length) {
-      timeout = setTimeout(dequeue, interval);
-    }
-  };
+  constructor(reason?: unknown) {
+    super('The queued function was aborted.');
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
 
-  type WithInternalState<T> = T & {
-    [INTERNAL_STATE]: {
-      maxRetries: number,
-      maxRetriesWithPauses: number,
-    }
-  };
+export class QueueFullError extends Error {
+  constructor() {
+    super('The queue is full.');
+    this.name = 'QueueFullError';
+  }
+}
 
-  const enqueue = <Return, State extends Record<string, unknown> = Record<string, unknown>>(
-    fn: QueueItem<State, Return>,
-    state?: State,
-  ) => new Promise<Return>(
-      (resolve, reject) => {
-        if (!state) {
-          state = {} as State;
-        }
-        if (!(INTERNAL_STATE in state)) {
-          Object.assign(state, {
-            [INTERNAL_STATE]: {
-              maxRetries,
-              maxRetriesWithPauses,
-            },
-          });
-        }
-        const retryableFn = async () => {
-          try {
-            return await fn({ intervalStart: lastIntervalStart, state: state as State });
-          } catch (err) {
-            if (err instanceof RetryError) {
-              const internalState = (state as WithInternalState<State>)[INTERNAL_STATE];
-              if (err.options.pauseQueue) {
-                if (internalState.maxRetriesWithPauses-- <= 0) {
-                  throw err;
-                }
-                /**
-                 * Stop accepting new functions for this interval, then push the timer out by the specified amount.
-                 */
-                numPerInterval = maxPerInterval;
-                timeout !== undefined && clearTimeout(timeout);
-                timeout = setTimeout(dequeue, err.options.retryAfter ?? options.interval ?? DEFAULT_WAIT);
-              } else {
-                if (internalState.maxRetries-- <= 0) {
-                  throw err;
-                }
-                /**
-                 * Wait for the specified amount of time, then enqueue the function again.
-                 */
-                await new Promise(
-                  (r) => setTimeout(r, err.options.retryAfter ?? options.interval ?? DEFAULT_WAIT),
-                );
-              }
-              return enqueue(fn, state);
-            }
-            throw err;
-          }
-        };
+export class TimeoutError extends Error {
+  public readonly timeout: number;
 
-        const callback = () => {
-          Promise.resolve()
-            .then(retryableFn)
-            .then(resolve)
-            .catch(reject);
-        };
+  constructor(timeout: number) {
+    super(`The queued function did not settle within ${timeout}ms.`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
 
-        const now = Date.now();
+export class QueueWaitTimeoutError extends Error {
+  public readonly maxWait: number;
 
-        if (timeout === undefined && interval && (now - lastIntervalStart) > interval) {
-          lastIntervalStart = now;
-          numPerInterval = 0;
-        }
-        if (numPerInterval++ < maxPerInterval) {
-          callback();
-        } else {
-          queue.push(callback);
-          if (timeout === undefined) {
-            timeout = setTimeout(dequeue,  lastIntervalStart + interval - now);
-          }
-        }
-      },
-    );
-  return enqueue;
+  constructor(maxWait: number) {
+    super(`The queued function did not start within ${maxWait}ms.`);
+    this.name = 'QueueWaitTimeoutError';
+    this.maxWait = maxWait;
+  }
 }
 
-function getNumber(num: number | string): number {
-  if (typeof num === 'number') {
-    return num;
-  }
-  const numFromStr = Number(num);
-  if (!Number.isFinite(numFromStr)) {
-    throw new Error(`"${num}" is not a valid number.`);
+export class CircuitOpenError extends Error {
+  constructor() {
+    super('The circuit is open.');
+    this.name = 'CircuitOpenError';
   }
-  return numFromStr;
 }
 
-export function seconds(numSeconds: number | string): number {
-  return getNumber(numSeconds) * 1000;
-}
+const INTERNAL_STATE = Symbol('internal_state');
+const GLOBAL_LIMITER = Symbol('global_limiter');
 
-export function minutes(numMinutes: number | string): number {
-  return getNumber(numMinutes) * seconds(60);
-}
+/**
+ * The options of a keyed queue's queues, which all share its global limit.
+ */
+type WithGlobalLimiter = ThrottledQueueOptions & { [GLOBAL_LIMITER]?: ThrottleStore };
 
-export function hours(numHours: number | string): number {
-  return getNumber(numHours) * minutes(60);
+/**
+ * Calculates how long to wait after the given attempt failed.
+ */
+function getBackoff(backoff: Required<BackoffOptions>, attempt: number, previousWait: number): number {
+  const {
+    strategy,
+    min,
+    max,
+    jitter,
+  } = backoff;
+  let wait: number;
+  switch (strategy) {
+    case 'linear':
+      wait = min * attempt;
+      break;
+    case 'exponential':
+      wait = min * 2 ** (attempt - 1);
+      break;
+    case 'decorrelated-jitter':
+      wait = min + Math.random() * (Math.max(min, previousWait * 3) - min);
+      break;
+    default:
+      wait = min;
+  }
+  wait = Math.min(max, Math.max(min, wait));
+  if (jitter) {
+    /**
+     * Randomized after clamping, so that waits at `min` or `max` are spread out too.
+     */
+    const lowest = Math.max(min, wait / 2);
+    wait = lowest + Math.random() * (Math.min(max, wait * 1.5) - lowest);
+  }
+  return wait;
+}
+
+/**
+ * Attaches the history of a function's attempts to the error it finally rejects with, unless that is not an object.
+ * Not enumerable, since the same error can be thrown by every attempt and would then contain itself.
+ */
+function setAttempts(err: unknown, attempts: RetryAttempt[]) {
+  if (typeof err === 'object' && err !== null && Object.isExtensible(err)
+    && Object.getOwnPropertyDescriptor(err, 'attempts')?.configurable !== false) {
+    Object.defineProperty(err, 'attempts', { value: attempts, configurable: true });
+  }
+}
+
+/**
+ * Rejects with a `TimeoutError` if the execution does not settle in time, aborting its signal.
+ */
+function withTimeout<T>(
+  execute: (signal?: AbortSignal) => Promise<T>,
+  timeout: number,
+  clock: Clock,
+): Promise<T> {
+  if (timeout === Infinity) {
+    return execute();
+  }
+  const controller = new AbortController();
+  const execution = execute(controller.signal);
+  return new Promise<T>((resolve, reject) => {
+    const timer = clock.setTimeout(() => {
+      const error = new TimeoutError(timeout);
+      controller.abort(error);
+      reject(error);
+    }, timeout);
+    execution.then(
+      (result) => {
+        clock.clearTimeout(timer);
+        resolve(result);
+      },
+      (err) => {
+        clock.clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+}
+
+export type ThrottledQueue = {
+  /**
+   * Enqueues a function, returning a promise for its result.
+   */
+  <Return, State extends Record<string, unknown> = Record<string, unknown>>(
+    fn: QueueItem<State, Return>,
+    state?: State,
+    options?: EnqueueOptions<State>,
+  ): Promise<Return>,
+  /**
+   * Stop starting queued functions. Functions already in-flight are unaffected.
+   */
+  pause: () => void,
+  /**
+   * Start executing queued functions again after a `pause`.
+   */
+  resume: () => void,
+  /**
+   * Reject every function that is queued or waiting to be retried with an `AbortError` carrying the given reason.
+   */
+  clear: (reason?: unknown) => void,
+  /**
+   * Resolves once nothing is waiting in the queue.
+   */
+  onEmpty: () => Promise<void>,
+  /**
+   * Resolves once every enqueued function has settled, including in-flight functions and pending retries.
+   */
+  onIdle: () => Promise<void>,
+  /**
+   * Resolves once the queue has room for another function.
+   */
+  onSpace: () => Promise<void>,
+  /**
+   * Number of functions waiting in the queue.
+   */
+  readonly size: number,
+  /**
+   * Number of enqueued functions that have not settled yet.
+   */
+  readonly pending: number,
+  /**
+   * Number of functions currently executing.
+   */
+  readonly inFlight: number,
+  /**
+   * Removes the result of the given `cacheKey` from the cache, or every result if no key is given.
+   */
+  clearCache: (cacheKey?: string) => void,
+  /**
+   * Changes the queue's limits while it is running, without dropping anything that was enqueued.
+   */
+  setOptions: (options: Pick<ThrottledQueueOptions, 'maxPerInterval' | 'interval' | 'evenlySpaced'>) => void,
+  /**
+   * Limit the rest of the current interval to `remaining`, pausing the queue for `resetAfter` milliseconds if nothing
+   * remains.
+   */
+  setRemaining: (remaining: number, resetAfter?: number | null) => void,
+  /**
+   * Adjust the queue to the rate limit headers of a response.
+   */
+  updateFromResponse: (response: ResponseLike) => void,
+  /**
+   * A snapshot of the queue's counters.
+   */
+  stats: () => QueueStats,
+  /**
+   * Max number of executions per interval of the first limit, which changes over time if the queue is adaptive.
+   */
+  readonly rate: number,
+  /**
+   * The state of the circuit breaker, which is always `'closed'` without the `circuitBreaker` option.
+   */
+  readonly circuit: CircuitState,
+  /**
+   * Runs `fn` through the queue for every item of `source`, returning an async iterable of the results.
+   * Items are only taken from the source once there is room for them.
+   */
+  map: <Item, Return>(
+    source: Iterable<Item> | AsyncIterable<Item>,
+    fn: StreamItem<Item, Return>,
+    options?: MapOptions<Item>,
+  ) => AsyncIterableIterator<Return>,
+  /**
+   * Creates a `TransformStream` that runs `fn` through the queue for every chunk.
+   */
+  transformStream: <Item, Return>(
+    fn: StreamItem<Item, Return>,
+    options?: MapOptions<Item>,
+  ) => TransformStream<Item, Return>,
+  /**
+   * Creates a Node.js `Transform` stream in object mode that runs `fn` through the queue for every chunk.
+   */
+  nodeTransform: <Item, Return>(fn: StreamItem<Item, Return>, options?: MapOptions<Item>) => Promise<NodeTransform>,
+  /**
+   * Returns a function with the same arguments as `fn`, which enqueues each call.
+   */
+  wrap: <Args extends unknown[], Return>(
+    fn: WrappableFunction<Args, Return>,
+    options?: WrapOptions<Args>,
+  ) => (...args: Args) => Promise<Return>,
+};
+
+type Job = {
+  priority: number,
+  cost: number,
+  /**
+   * Jobs with a higher rank are dequeued first. Set when the job is queued.
+   */
+  rank: number,
+  /**
+   * When the job was last queued.
+   */
+  queuedAt: number,
+  /**
+   * Duration in milliseconds the job can wait to start each time it is queued.
+   */
+  maxWait: number,
+  /**
+   * Rejects the job once it has waited `maxWait`. Set when the job is queued.
+   */
+  waitTimer?: unknown,
+  run: (intervalStarts: number[]) => void,
+  cancel: (reason: unknown) => void,
+  /**
+   * Rejects the job with the given error without executing it again, e.g. when the queue has no room for it.
+   */
+  evict: (error: Error) => void,
+};
+
+/**
+ * Throws if the options that make up the queue's limits are invalid.
+ */
+function validateLimitOptions(options: ThrottledQueueOptions) {
+  const { maxPerInterval = Infinity, interval = 0, evenlySpaced = false } = options;
+  if (maxPerInterval < 1) {
+    throw new Error('"maxPerInterval" must be a positive integer.');
+  }
+  if (interval < 0) {
+    throw new Error('"interval" cannot be negative.');
+  }
+  if (options.limits) {
+    if (options.maxPerInterval !== undefined || options.interval !== undefined) {
+      throw new Error('"limits" cannot be used with "maxPerInterval" or "interval".');
+    }
+    if (!options.limits.length) {
+      throw new Error('"limits" cannot be empty.');
+    }
+    options.limits.forEach((limit, index) => {
+      if (!(limit.maxPerInterval >= 1)) {
+        throw new Error(`"limits[${index}].maxPerInterval" must be a positive integer.`);
+      }
+      if (!(limit.interval >= 0)) {
+        throw new Error(`"limits[${index}].interval" cannot be negative.`);
+      }
+      if (limit.burst !== undefined && limit.burst < 1) {
+        throw new Error(`"limits[${index}].burst" must be a positive integer.`);
+      }
+    });
+    /**
+     * The state of a shared store only has room for one limit.
+     */
+    const resources = options.limits
+      .map((limit) => getSharedResource(limit.store ?? options.store ?? memoryStore))
+      .filter((resource) => resource !== undefined);
+    if (new Set(resources).size < resources.length) {
+      throw new Error('A shared "store" cannot be used by more than one of the "limits".');
+    }
+  }
+  if (evenlySpaced && options.adaptive) {
+    throw new Error('"adaptive" cannot be used with "evenlySpaced".');
+  }
+}
+
+/**
+ * Gets the limits that the queue enforces.
+ * Evenly spaced limits only allow one execution for each slice of their interval.
+ */
+function getLimits(options: ThrottledQueueOptions): RateLimit[] {
+  const {
+    maxPerInterval = Infinity,
+    interval = 0,
+    evenlySpaced = false,
+    burst,
+  } = options;
+  const limits = options.limits ?? [{ maxPerInterval, interval, burst }];
+  if (!evenlySpaced) {
+    return limits;
+  }
+  return limits.map((limit) => ({
+    ...limit,
+    interval: Math.ceil(limit.interval / limit.maxPerInterval),
+    maxPerInterval: 1,
+    burst: 1,
+  }));
+}
+
+/**
+ * Fills in the backoff options.
+ * Without an explicit `min`, the backoff starts at the shortest interval of the limits.
+ */
+function getBackoffOptions(options: ThrottledQueueOptions, limits: RateLimit[]): Required<BackoffOptions> {
+  const backoffOptions = typeof options.backoff === 'string' ? { strategy: options.backoff } : options.backoff;
+  return {
+    strategy: backoffOptions?.strategy ?? 'constant',
+    min: backoffOptions?.min ?? (options.interval !== undefined || options.limits || options.evenlySpaced
+      ? Math.min(...limits.map((limit) => limit.interval))
+      : DEFAULT_WAIT),
+    max: backoffOptions?.max ?? Infinity,
+    jitter: backoffOptions?.jitter ?? false,
+  };
+}
+
+export function throttledQueue(options?: ThrottledQueueOptions): ThrottledQueue;
+/**
+ * Creates a queue from a rate such as `'100/min'`, along with any options other than its limits.
+ */
+export function throttledQueue(
+  rate: RateString,
+  options?: Omit<ThrottledQueueOptions, 'maxPerInterval' | 'interval' | 'limits'>,
+): ThrottledQueue;
+export function throttledQueue(
+  rateOrOptions: RateString | ThrottledQueueOptions = {},
+  rateOptions: ThrottledQueueOptions = {},
+): ThrottledQueue {
+  const options = typeof rateOrOptions === 'string' ? { ...rateOptions, ...parseRate(rateOrOptions) } : rateOrOptions;
+  const {
+    maxRetries = DEFAULT_RETRY_LIMIT,
+    maxRetriesWithPauses = DEFAULT_RETRY_LIMIT,
+    maxConcurrent = Infinity,
+    lanes = {},
+    priorityAging = DEFAULT_PRIORITY_AGING,
+    strategy = 'fixed-window',
+    burst,
+    store = memoryStore,
+    hooks = {},
+    retryOn,
+    mapError,
+    maxQueueSize = Infinity,
+    overflow = 'reject',
+    timeout: defaultTimeout = Infinity,
+    maxWait: defaultMaxWait = Infinity,
+    clock = systemClock,
+    cache: {
+      ttl: cacheTtl = 0,
+      maxSize: cacheMaxSize = 1000,
+    } = {},
+  } = options;
+  validateLimitOptions(options);
+  /**
+   * The options that make up the queue's limits, which can be changed with `setOptions`.
+   */
+  let limitOptions = options;
+  let limits = getLimits(limitOptions);
+  const backoff = getBackoffOptions(limitOptions, limits);
+  if (maxRetries < 0) {
+    throw new Error('"maxRetries" cannot be negative.');
+  }
+  if (maxRetriesWithPauses < 0) {
+    throw new Error('"maxRetriesWithPauses" cannot be negative.');
+  }
+  if (maxConcurrent < 1) {
+    throw new Error('"maxConcurrent" must be a positive integer.');
+  }
+  if (priorityAging <= 0) {
+    throw new Error('"priorityAging" must be positive.');
+  }
+  if (burst !== undefined && burst < 1) {
+    throw new Error('"burst" must be a positive integer.');
+  }
+  if (maxQueueSize < 1) {
+    throw new Error('"maxQueueSize" must be a positive integer.');
+  }
+  if (!['reject', 'drop-oldest', 'drop-newest', 'block'].includes(overflow)) {
+    throw new Error(`"${overflow}" is not a valid overflow policy.`);
+  }
+  if (defaultTimeout <= 0) {
+    throw new Error('"timeout" must be positive.');
+  }
+  if (defaultMaxWait <= 0) {
+    throw new Error('"maxWait" must be positive.');
+  }
+  if (!(cacheTtl >= 0)) {
+    throw new Error('"cache.ttl" cannot be negative.');
+  }
+  if (!(cacheMaxSize >= 1)) {
+    throw new Error('"cache.maxSize" must be a positive integer.');
+  }
+  if (!['constant', 'linear', 'exponential', 'decorrelated-jitter'].includes(backoff.strategy)) {
+    throw new Error(`"${backoff.strategy}" is not a valid backoff strategy.`);
+  }
+  if (backoff.min < 0) {
+    throw new Error('"backoff.min" cannot be negative.');
+  }
+  if (backoff.max < backoff.min) {
+    throw new Error('"backoff.max" cannot be less than "backoff.min".');
+  }
+  const queue: Job[] = [];
+  /**
+   * Jobs waiting for room in a full queue, in the order they arrived.
+   */
+  const blocked: Job[] = [];
+  const jobs = new Set<Job>();
+  let emptyListeners: Array<() => void> = [];
+  let idleListeners: Array<() => void> = [];
+  let spaceListeners: Array<() => void> = [];
+  const getStoreOptions = (limit: RateLimit) => ({
+    maxPerInterval: limit.maxPerInterval,
+    interval: limit.interval,
+    strategy: limit.strategy ?? strategy,
+    burst: limit.burst ?? limit.maxPerInterval,
+  });
+  const limiters = limits.map((limit) => (limit.store ?? store)(getStoreOptions(limit)));
+  const globalLimiter = (options as WithGlobalLimiter)[GLOBAL_LIMITER];
+  /**
+   * A function only starts once every limit allows it, while headers and pauses apply to the first limit.
+   */
+  const combineLimiters = () => {
+    const allLimiters = globalLimiter ? [...limiters, globalLimiter] : limiters;
+    return allLimiters.length === 1 ? allLimiters[0] : combineStores(allLimiters);
+  };
+  let limiter = combineLimiters();
+
+  const adaptiveOptions = options.adaptive === true ? {} : options.adaptive || undefined;
+  const adaptive: Required<AdaptiveOptions> | undefined = adaptiveOptions && {
+    min: adaptiveOptions.min ?? 1,
+    max: adaptiveOptions.max ?? limits[0].maxPerInterval,
+    initial: adaptiveOptions.initial ?? adaptiveOptions.max ?? limits[0].maxPerInterval,
+    increase: adaptiveOptions.increase ?? 1,
+    decrease: adaptiveOptions.decrease ?? 0.5,
+  };
+  if (adaptive) {
+    if (!(adaptive.min >= 1)) {
+      throw new Error('"adaptive.min" must be a positive integer.');
+    }
+    if (!Number.isFinite(adaptive.max)) {
+      throw new Error('"adaptive.max" must be finite.');
+    }
+    if (adaptive.max < adaptive.min) {
+      throw new Error('"adaptive.max" cannot be less than "adaptive.min".');
+    }
+    if (adaptive.initial < adaptive.min || adaptive.initial > adaptive.max) {
+      throw new Error('"adaptive.initial" must be between "adaptive.min" and "adaptive.max".');
+    }
+    if (!(adaptive.increase > 0)) {
+      throw new Error('"adaptive.increase" must be positive.');
+    }
+    if (!(adaptive.decrease > 0 && adaptive.decrease < 1)) {
+      throw new Error('"adaptive.decrease" must be between 0 and 1.');
+    }
+  }
+  const breakerOptions = options.circuitBreaker === true ? {} : options.circuitBreaker || undefined;
+  const breaker: Required<CircuitBreakerOptions> | undefined = breakerOptions && {
+    threshold: breakerOptions.threshold ?? 5,
+    window: breakerOptions.window ?? 60 * 1000,
+    cooldown: breakerOptions.cooldown ?? 30 * 1000,
+    whenOpen: breakerOptions.whenOpen ?? 'reject',
+    isFailure: breakerOptions.isFailure ?? (() => true),
+  };
+  if (breaker) {
+    if (!(breaker.threshold >= 1)) {
+      throw new Error('"circuitBreaker.threshold" must be a positive integer.');
+    }
+    if (!(breaker.window > 0)) {
+      throw new Error('"circuitBreaker.window" must be positive.');
+    }
+    if (!(breaker.cooldown > 0)) {
+      throw new Error('"circuitBreaker.cooldown" must be positive.');
+    }
+    if (!['reject', 'hold'].includes(breaker.whenOpen)) {
+      throw new Error(`"${breaker.whenOpen}" is not a valid "circuitBreaker.whenOpen" policy.`);
+    }
+  }
+  let rate = limits[0].maxPerInterval;
+  /**
+   * Changes a limit while keeping track of what was already used up, unless its store cannot be changed.
+   */
+  const configureLimit = (index: number, limit: RateLimit) => {
+    const storeOptions = getStoreOptions(limit);
+    const { configure } = limiters[index];
+    if (configure) {
+      configure(storeOptions);
+    } else {
+      limiters[index] = (limit.store ?? store)(storeOptions);
+      limiter = combineLimiters();
+    }
+  };
+  /**
+   * Changes the `maxPerInterval` of the first limit.
+   */
+  const applyRate = (newRate: number) => {
+    rate = newRate;
+    /**
+     * The burst follows the rate unless it was set explicitly.
+     */
+    configureLimit(0, { ...limits[0], maxPerInterval: rate, burst: (limitOptions.limits?.[0] ?? limitOptions).burst });
+  };
+  if (adaptive && adaptive.initial !== rate) {
+    applyRate(adaptive.initial);
+  }
+  let pausedUntil = 0;
+  let circuit: CircuitState = 'closed';
+  /**
+   * Goes up every time the circuit changes, so that executions can tell whether it changed since they started.
+   */
+  let circuitChanges = 0;
+  /**
+   * Whether the single execution that probes a half-open circuit has started.
+   */
+  let probing = false;
+  let numInFlight = 0;
+  let paused = false;
+  let timeout: unknown;
+  const counters = {
+    enqueued: 0,
+    started: 0,
+    succeeded: 0,
+    failed: 0,
+    retried: 0,
+    dropped: 0,
+    finished: 0,
+    totalQueuedDuration: 0,
+    totalDuration: 0,
+  };
+
+  const emit = <Name extends keyof ThrottledQueueHooks>(
+    name: Name,
+    ...args: Parameters<NonNullable<ThrottledQueueHooks[Name]>>
+  ) => {
+    try {
+      (hooks[name] as ((...hookArgs: typeof args) => void) | undefined)?.(...args);
+    } catch (error) {
+      /**
+       * A failing hook should not break the queue, nor the process running it.
+       */
+      if (name !== 'onHookError') {
+        emit('onHookError', { hook: name, error });
+      }
+    }
+  };
+
+  const notifyEmpty = () => {
+    if (!queue.length) {
+      emptyListeners.forEach((listener) => listener());
+      emptyListeners = [];
+    }
+  };
+  const notifyIdle = () => {
+    if (!jobs.size) {
+      idleListeners.forEach((listener) => listener());
+      idleListeners = [];
+    }
+  };
+  const notifySpace = () => {
+    if (queue.length + blocked.length < maxQueueSize) {
+      spaceListeners.forEach((listener) => listener());
+      spaceListeners = [];
+    }
+  };
+  /**
+   * Inserts the job in the queue, behind every job with a higher or equal rank.
+   */
+  const insert = (job: Job) => {
+    /**
+     * Aging raises the priority of every queued job at the same rate,
+     * so the order only depends on each job's priority and when it was queued.
+     */
+    job.rank = job.priority - job.queuedAt / priorityAging;
+    let low = 0;
+    let high = queue.length;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (queue[mid].rank >= job.rank) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    queue.splice(low, 0, job);
+  };
+  /**
+   * Moves blocked jobs into the queue as long as there is room for them.
+   */
+  const unblock = () => {
+    while (blocked.length && queue.length < maxQueueSize) {
+      insert(blocked.shift() as Job);
+    }
+    notifySpace();
+  };
+  /**
+   * Removes a job that is waiting in the queue or for room in it, returning whether it was found.
+   */
+  const remove = (job: Job) => {
+    const index = queue.indexOf(job);
+    if (index !== -1) {
+      queue.splice(index, 1);
+      unblock();
+      notifyEmpty();
+      return true;
+    }
+    const blockedIndex = blocked.indexOf(job);
+    if (blockedIndex !== -1) {
+      blocked.splice(blockedIndex, 1);
+      notifySpace();
+      return true;
+    }
+    return false;
+  };
+  /**
+   * Gets called at a set interval to remove items from the queue.
+   * This is a self-adjusting timer, since the browser's setTimeout is highly inaccurate.
+   */
+  const dequeue = () => {
+    timeout = undefined;
+    if (paused) {
+      return;
+    }
+    const now = clock.now();
+    if (pausedUntil) {
+      if (now < pausedUntil) {
+        timeout = clock.setTimeout(dequeue, pausedUntil - now);
+        return;
+      }
+      pausedUntil = 0;
+      emit('onResume');
+    }
+    while (queue.length && numInFlight < maxConcurrent && circuit !== 'open' && !probing) {
+      const job = queue[0];
+      /**
+       * If the budget is used up, wait until it can be acquired.
+       */
+      const wait = limiter.acquire(job.cost, now);
+      if (wait) {
+        timeout = clock.setTimeout(dequeue, wait);
+        break;
+      }
+      queue.shift();
+      unblock();
+      probing = circuit === 'half-open';
+      job.run(limiters.map((limitStore) => limitStore.intervalStart()));
+    }
+    /**
+     * Any jobs left without a timer are waiting on in-flight executions to settle.
+     */
+    notifyEmpty();
+  };
+  /**
+   * Executes the job right away if there is room for it, otherwise it waits in the queue.
+   */
+  const schedule = (job: Job) => {
+    job.queuedAt = clock.now();
+    /**
+     * Only the function that probes a half-open circuit is let in.
+     */
+    if (breaker?.whenOpen === 'reject' && circuit !== 'closed' && (circuit === 'open' || probing || queue.length)) {
+      job.evict(new CircuitOpenError());
+      return;
+    }
+    if (job.maxWait !== Infinity) {
+      job.waitTimer = clock.setTimeout(() => job.evict(new QueueWaitTimeoutError(job.maxWait)), job.maxWait);
+    }
+    let evicted: Job | undefined;
+    if (queue.length + blocked.length >= maxQueueSize) {
+      if (overflow === 'block') {
+        blocked.push(job);
+        return;
+      }
+      if (overflow === 'reject') {
+        job.evict(new QueueFullError());
+        return;
+      }
+      /**
+       * Make room by evicting the job that has been waiting the longest, or the one that was queued last.
+       */
+      evicted = queue.reduce(
+        (candidate, queued) => {
+          if (overflow === 'drop-oldest') {
+            return queued.queuedAt < candidate.queuedAt ? queued : candidate;
+          }
+          return queued.queuedAt >= candidate.queuedAt ? queued : candidate;
+        },
+      );
+    }
+    /**
+     * The new job is inserted first, so the queue is never briefly empty.
+     */
+    insert(job);
+    evicted?.evict(new QueueFullError());
+    if (timeout === undefined) {
+      dequeue();
+    }
+  };
+  /**
+   * Lets the next queued job start if it was only waiting on an in-flight execution.
+   */
+  const release = () => {
+    numInFlight--;
+    if (timeout === undefined) {
+      dequeue();
+    }
+  };
+
+  /**
+   * Push the timer out until the given time.
+   */
+  const pauseUntil = (until: number) => {
+    pausedUntil = Math.max(pausedUntil, until);
+    emit('onPause', { until: pausedUntil });
+    timeout !== undefined && clock.clearTimeout(timeout);
+    timeout = clock.setTimeout(dequeue, pausedUntil - clock.now());
+  };
+
+  /**
+   * When the adaptive rate was last raised or lowered, and how many times it was lowered.
+   */
+  let rateChangedAt = clock.now();
+  let rateDecreases = 0;
+  const setRate = (newRate: number) => {
+    rateChangedAt = clock.now();
+    if (newRate !== rate) {
+      applyRate(newRate);
+      emit('onRateChange', { rate });
+    }
+  };
+  /**
+   * Raises the adaptive rate after a full interval without being lowered.
+   */
+  const raiseRate = () => {
+    if (adaptive && clock.now() - rateChangedAt >= limits[0].interval) {
+      setRate(Math.min(adaptive.max, rate + adaptive.increase));
+    }
+  };
+  /**
+   * Lowers the adaptive rate, once for all the executions that were already running when it was last lowered.
+   */
+  const lowerRate = (decreasesAtStart: number) => {
+    if (adaptive && decreasesAtStart === rateDecreases) {
+      rateDecreases++;
+      setRate(Math.max(adaptive.min, Math.floor(rate * adaptive.decrease)));
+    }
+  };
+
+  let failures: number[] = [];
+  const setCircuit = (state: CircuitState) => {
+    circuit = state;
+    circuitChanges++;
+    probing = false;
+    emit('onCircuitChange', { state });
+    if (state !== 'open' && timeout === undefined) {
+      dequeue();
+    }
+  };
+  const openCircuit = ({ whenOpen, cooldown }: Required<CircuitBreakerOptions>) => {
+    failures = [];
+    setCircuit('open');
+    if (whenOpen === 'reject') {
+      [...queue, ...blocked].forEach((job) => job.evict(new CircuitOpenError()));
+    }
+    clock.setTimeout(() => setCircuit('half-open'), cooldown);
+  };
+  /**
+   * Counts a settled execution towards the circuit breaker. Errors that are not failures show that the API responded.
+   * Executions that started before the circuit last changed say nothing about its current state, and only the probe
+   * decides whether a half-open circuit closes.
+   */
+  const recordExecution = (changesAtStart: number, isProbe: boolean, error?: unknown) => {
+    if (!breaker || changesAtStart !== circuitChanges) {
+      return;
+    }
+    const failed = error !== undefined && breaker.isFailure(error);
+    if (circuit === 'half-open') {
+      if (!isProbe) {
+        return;
+      }
+      if (failed) {
+        openCircuit(breaker);
+      } else {
+        setCircuit('closed');
+      }
+    } else if (circuit === 'closed' && failed) {
+      const now = clock.now();
+      failures = failures.filter((time) => time > now - breaker.window);
+      failures.push(now);
+      if (failures.length >= breaker.threshold) {
+        openCircuit(breaker);
+      }
+    }
+  };
+
+  const setOptions = (newOptions: Pick<ThrottledQueueOptions, 'maxPerInterval' | 'interval' | 'evenlySpaced'>) => {
+    const nextOptions = { ...limitOptions, ...newOptions };
+    validateLimitOptions(nextOptions);
+    const nextLimits = getLimits(nextOptions);
+    const backoffMin = getBackoffOptions(nextOptions, nextLimits).min;
+    if (backoff.max < backoffMin) {
+      throw new Error('"backoff.max" cannot be less than "backoff.min".');
+    }
+    const adaptiveMax = adaptiveOptions?.max ?? nextLimits[0].maxPerInterval;
+    if (adaptive) {
+      if (!Number.isFinite(adaptiveMax)) {
+        throw new Error('"adaptive.max" must be finite.');
+      }
+      if (adaptiveMax < adaptive.min) {
+        throw new Error('"adaptive.max" cannot be less than "adaptive.min".');
+      }
+    }
+    limitOptions = nextOptions;
+    limits = nextLimits;
+    backoff.min = backoffMin;
+    limits.forEach((limit, index) => configureLimit(index, limit));
+    if (adaptive) {
+      /**
+       * The adaptive rate carries over, as far as the new limit allows.
+       */
+      adaptive.max = adaptiveMax;
+      applyRate(Math.min(Math.max(rate, adaptive.min), adaptive.max));
+    } else {
+      rate = limits[0].maxPerInterval;
+    }
+    /**
+     * Whatever the queue was waiting for may now be sooner or later.
+     */
+    if (timeout !== undefined) {
+      clock.clearTimeout(timeout);
+      dequeue();
+    }
+  };
+  const setRemaining = (remaining: number, resetAfter?: number | null) => {
+    const now = clock.now();
+    limiter.setRemaining(Math.max(0, remaining), now);
+    if (remaining <= 0 && resetAfter) {
+      pauseUntil(now + resetAfter);
+    }
+  };
+
+  type WithInternalState<T> = T & {
+    [INTERNAL_STATE]: {
+      maxRetries: number,
+      maxRetriesWithPauses: number,
+      attempt: number,
+      previousWait: number,
+    }
+  };
+
+  const enqueueJob = <Return, State extends Record<string, unknown> = Record<string, unknown>>(
+    fn: QueueItem<State, Return>,
+    state?: State,
+    enqueueOptions: EnqueueOptions<State> = {},
+  ) => new Promise<Return>(
+      (resolve, reject) => {
+        const {
+          signal,
+          priority = 0,
+          cost = 1,
+          timeout: jobTimeout = defaultTimeout,
+          maxWait = defaultMaxWait,
+        } = enqueueOptions;
+        if (signal?.aborted) {
+          reject(new AbortError(signal.reason));
+          return;
+        }
+        if (jobTimeout <= 0) {
+          throw new Error('"timeout" must be positive.');
+        }
+        if (maxWait <= 0) {
+          throw new Error('"maxWait" must be positive.');
+        }
+        if (typeof priority === 'string' && !Object.prototype.hasOwnProperty.call(lanes, priority)) {
+          throw new Error(`"${priority}" is not a known lane.`);
+        }
+        if (!state) {
+          state = {} as State;
+        }
+        if (!(INTERNAL_STATE in state)) {
+          Object.assign(state, {
+            [INTERNAL_STATE]: {
+              maxRetries,
+              maxRetriesWithPauses,
+              attempt: 0,
+              previousWait: 0,
+            },
+          });
+        }
+        const internalState = (state as WithInternalState<State>)[INTERNAL_STATE];
+        const attempts: RetryAttempt[] = [];
+        const getCost = () => {
+          const jobCost = typeof cost === 'function' ? cost(state as State) : cost;
+          if (!(jobCost > 0)) {
+            throw new Error('"cost" must be positive.');
+          }
+          return jobCost;
+        };
+        const getWait = (err: RetryError) => {
+          if (err.options.retryAfter !== undefined && err.options.retryAfter !== null) {
+            return err.options.retryAfter;
+          }
+          internalState.previousWait = getBackoff(backoff, internalState.attempt, internalState.previousWait);
+          return internalState.previousWait;
+        };
+        const enqueuedAt = clock.now();
+        let queuedDuration = 0;
+        let duration = 0;
+        let dropped = false;
+        const getEvent = (): QueueItemEvent => ({
+          state: state as State,
+          attempt: internalState.attempt,
+          enqueuedAt,
+          queuedDuration,
+        });
+        /**
+         * Creates the error for a job that will not settle by itself.
+         */
+        const drop = (reason: unknown) => {
+          dropped = true;
+          counters.dropped++;
+          emit('onDrop', { ...getEvent(), reason });
+          return new AbortError(reason);
+        };
+        let abortRetryWait: ((reason: unknown) => void) | undefined;
+        let removeAbortListener: (() => void) | undefined;
+
+        const settle = (settledJob: Job) => {
+          clock.clearTimeout(settledJob.waitTimer);
+          jobs.delete(settledJob);
+          removeAbortListener?.();
+          notifyIdle();
+        };
+        /**
+         * Resolves once the job may be scheduled again, or throws if it should not be retried.
+         */
+        const prepareRetry = async (thrown: unknown, decreasesAtStart: number) => {
+          if (thrown instanceof TimeoutError) {
+            /**
+             * The timed out execution may still be running, so it is not retried.
+             */
+            throw thrown;
+          }
+          const mapped = mapError ? mapError(thrown, internalState.attempt) : thrown;
+          const err = !(mapped instanceof RetryError) && retryOn?.(mapped, internalState.attempt)
+            ? new RetryError({ cause: mapped })
+            : mapped;
+          if (!(err instanceof RetryError)) {
+            throw err;
+          }
+          if (signal?.aborted) {
+            throw drop(signal.reason);
+          }
+          const pauseQueue = err.options.pauseQueue ?? false;
+          if (pauseQueue) {
+            lowerRate(decreasesAtStart);
+          }
+          if (pauseQueue ? internalState.maxRetriesWithPauses-- <= 0 : internalState.maxRetries-- <= 0) {
+            throw err;
+          }
+          const wait = getWait(err);
+          counters.retried++;
+          emit('onRetry', {
+            ...getEvent(),
+            error: err,
+            wait,
+            pauseQueue,
+          });
+          if (pauseQueue) {
+            /**
+             * Stop accepting new functions for this interval, then push the timer out by the specified amount.
+             */
+            const now = clock.now();
+            limiter.setRemaining(0, now);
+            pauseUntil(now + wait);
+            return;
+          }
+          /**
+           * Wait for the specified amount of time, then enqueue the function again.
+           */
+          await new Promise<void>(
+            (r, j) => {
+              const retryTimeout = clock.setTimeout(r, wait);
+              abortRetryWait = (reason) => {
+                clock.clearTimeout(retryTimeout);
+                j(drop(reason));
+              };
+            },
+          );
+          abortRetryWait = undefined;
+        };
+
+        const job: Job = {
+          priority: typeof priority === 'string' ? lanes[priority] : priority,
+          cost: getCost(),
+          rank: 0,
+          queuedAt: 0,
+          maxWait,
+          run: (intervalStarts) => {
+            clock.clearTimeout(job.waitTimer);
+            numInFlight++;
+            internalState.attempt++;
+            const startedAt = clock.now();
+            const decreasesAtStart = rateDecreases;
+            const circuitChangesAtStart = circuitChanges;
+            const isProbe = probing;
+            queuedDuration = startedAt - job.queuedAt;
+            counters.started++;
+            counters.totalQueuedDuration += queuedDuration;
+            emit('onStart', getEvent());
+            const finish = () => {
+              duration = clock.now() - startedAt;
+              counters.finished++;
+              counters.totalDuration += duration;
+            };
+            const execute = (executionSignal?: AbortSignal) => Promise.resolve().then(() => fn({
+              intervalStart: intervalStarts[0],
+              intervalStarts,
+              state: state as State,
+              attempt: internalState.attempt,
+              signal: executionSignal,
+            }));
+            withTimeout(execute, jobTimeout, clock)
+              .then(
+                (result) => {
+                  finish();
+                  counters.succeeded++;
+                  emit('onSuccess', { ...getEvent(), duration });
+                  raiseRate();
+                  recordExecution(circuitChangesAtStart, isProbe);
+                  resolve(result);
+                  settle(job);
+                  release();
+                },
+                async (err) => {
+                  finish();
+                  attempts.push({
+                    attempt: internalState.attempt,
+                    error: err,
+                    startedAt,
+                    failedAt: clock.now(),
+                  });
+                  recordExecution(circuitChangesAtStart, isProbe, err);
+                  /**
+                   * A paused queue must be paused before the slot is released.
+                   */
+                  const retry = prepareRetry(err, decreasesAtStart);
+                  release();
+                  await retry;
+                  job.cost = getCost();
+                  schedule(job);
+                },
+              )
+              .catch((err) => {
+                if (!dropped) {
+                  if (attempts.length) {
+                    setAttempts(err, attempts);
+                  }
+                  counters.failed++;
+                  emit('onError', { ...getEvent(), duration, error: err });
+                }
+                reject(err);
+                settle(job);
+              });
+          },
+          cancel: (reason) => {
+            /**
+             * Still waiting for a slot, so it never counted against the interval.
+             */
+            if (remove(job)) {
+              queuedDuration = clock.now() - job.queuedAt;
+              reject(drop(reason));
+              settle(job);
+            } else {
+              abortRetryWait?.(reason);
+            }
+          },
+          evict: (error) => {
+            remove(job);
+            queuedDuration = clock.now() - job.queuedAt;
+            drop(error);
+            reject(error);
+            settle(job);
+          },
+        };
+        if (signal) {
+          const onAbort = () => job.cancel(signal.reason);
+          signal.addEventListener('abort', onAbort, { once: true });
+          removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+        }
+        jobs.add(job);
+        counters.enqueued++;
+        emit('onEnqueue', getEvent());
+        schedule(job);
+      },
+    );
+
+  type CacheEntry = {
+    result: Promise<unknown>,
+    expiresAt: number,
+    /**
+     * Aborts the shared execution, once every caller waiting for it has aborted.
+     * Not needed when the first caller has no signal, since that caller never stops waiting.
+     */
+    controller?: AbortController,
+    waiting: number,
+    /**
+     * The promise of the callers without a signal, who all share it.
+     */
+    shared?: Promise<unknown>,
+  };
+  /**
+   * Pending and cached results by `cacheKey`, from the least to the most recently used.
+   */
+  const cache = new Map<string, CacheEntry>();
+  const uncache = (cacheKey: string, entry: CacheEntry) => {
+    if (cache.get(cacheKey) === entry) {
+      cache.delete(cacheKey);
+    }
+  };
+  /**
+   * Waits for a pending execution on behalf of one caller, who can stop waiting with their own signal.
+   */
+  const waitFor = <Return>(cacheKey: string, entry: CacheEntry, signal?: AbortSignal) => new Promise<Return>(
+    (resolve, reject) => {
+      entry.waiting++;
+      const onAbort = () => {
+        reject(new AbortError(signal?.reason));
+        if (--entry.waiting === 0) {
+          uncache(cacheKey, entry);
+          entry.controller?.abort(signal?.reason);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      void (entry.result as Promise<Return>)
+        .then(resolve, reject)
+        .finally(() => signal?.removeEventListener('abort', onAbort));
+    },
+  );
+  const join = <Return>(cacheKey: string, entry: CacheEntry, signal?: AbortSignal) => {
+    if (signal) {
+      return waitFor<Return>(cacheKey, entry, signal);
+    }
+    if (!entry.shared) {
+      entry.shared = waitFor<Return>(cacheKey, entry);
+    }
+    return entry.shared as Promise<Return>;
+  };
+  const enqueue = <Return, State extends Record<string, unknown> = Record<string, unknown>>(
+    fn: QueueItem<State, Return>,
+    state?: State,
+    enqueueOptions: EnqueueOptions<State> = {},
+  ): Promise<Return> => {
+    const { cacheKey, signal } = enqueueOptions;
+    if (cacheKey === undefined || signal?.aborted) {
+      return enqueueJob(fn, state, enqueueOptions);
+    }
+    const cached = cache.get(cacheKey);
+    cache.delete(cacheKey);
+    if (cached && cached.expiresAt > clock.now()) {
+      cache.set(cacheKey, cached);
+      return cached.expiresAt === Infinity
+        ? join<Return>(cacheKey, cached, signal)
+        : cached.result as Promise<Return>;
+    }
+    const controller = signal ? new AbortController() : undefined;
+    const entry: CacheEntry = {
+      result: enqueueJob(fn, state, { ...enqueueOptions, signal: controller?.signal }),
+      expiresAt: Infinity,
+      controller,
+      waiting: 0,
+    };
+    cache.set(cacheKey, entry);
+    if (cache.size > cacheMaxSize) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    entry.result.then(
+      () => {
+        entry.expiresAt = clock.now() + cacheTtl;
+        if (!cacheTtl) {
+          uncache(cacheKey, entry);
+        }
+      },
+      () => uncache(cacheKey, entry),
+    );
+    return join<Return>(cacheKey, entry, signal);
+  };
+
+  const getStreamRunner = <Item, Return>(
+    fn: StreamItem<Item, Return>,
+    mapOptions: MapOptions<Item>,
+  ): StreamRunner<Item, Return> => {
+    const {
+      ordered,
+      highWaterMark,
+      signal,
+      cost,
+      ...enqueueOptions
+    } = mapOptions;
+    return (item, itemSignal) => enqueue(
+      (context) => fn(item, context),
+      {},
+      { ...enqueueOptions, cost: typeof cost === 'function' ? cost(item) : cost, signal: itemSignal },
+    );
+  };
+  const onSpace = () => new Promise<void>((resolve) => {
+    spaceListeners.push(resolve);
+    notifySpace();
+  });
+
+  const controls = {
+    clearCache: (cacheKey?: string) => {
+      if (cacheKey === undefined) {
+        cache.clear();
+      } else {
+        cache.delete(cacheKey);
+      }
+    },
+    setOptions,
+    setRemaining,
+    updateFromResponse: (response: ResponseLike) => {
+      const { retryAfter, remaining, resetAfter } = parseRateLimitHeaders(response.headers, clock.now());
+      if (retryAfter !== null) {
+        setRemaining(0, retryAfter);
+      } else if (remaining !== null) {
+        setRemaining(remaining, resetAfter);
+      }
+    },
+    pause: () => {
+      if (!paused) {
+        paused = true;
+        emit('onPause', { until: null });
+      }
+    },
+    resume: () => {
+      if (paused) {
+        paused = false;
+        emit('onResume');
+      }
+      if (queue.length && timeout === undefined) {
+        dequeue();
+      }
+    },
+    clear: (reason?: unknown) => {
+      Array.from(jobs).forEach((job) => job.cancel(reason));
+    },
+    onEmpty: () => new Promise<void>((resolve) => {
+      emptyListeners.push(resolve);
+      notifyEmpty();
+    }),
+    onIdle: () => new Promise<void>((resolve) => {
+      idleListeners.push(resolve);
+      notifyIdle();
+    }),
+    onSpace,
+    map: <Item, Return>(
+      source: Iterable<Item> | AsyncIterable<Item>,
+      fn: StreamItem<Item, Return>,
+      mapOptions: MapOptions<Item> = {},
+    ) => mapIterable(source, getStreamRunner(fn, mapOptions), onSpace, mapOptions),
+    transformStream: <Item, Return>(fn: StreamItem<Item, Return>, mapOptions: MapOptions<Item> = {}) => (
+      createTransformStream(getStreamRunner(fn, mapOptions), onSpace, mapOptions)
+    ),
+    nodeTransform: <Item, Return>(fn: StreamItem<Item, Return>, mapOptions: MapOptions<Item> = {}) => (
+      createNodeTransform(getStreamRunner(fn, mapOptions), onSpace, mapOptions)
+    ),
+    wrap: <Args extends unknown[], Return>(
+      fn: WrappableFunction<Args, Return>,
+      wrapOptions: WrapOptions<Args> = {},
+    ) => {
+      const { cost, key, ...enqueueOptions } = wrapOptions;
+      const pendingCalls = new Map<unknown, Promise<Return>>();
+      return (...args: Args) => {
+        const callKey = key?.(...args);
+        if (key && pendingCalls.has(callKey)) {
+          return pendingCalls.get(callKey) as Promise<Return>;
+        }
+        const call = enqueue(
+          (context) => fn.apply(context, args),
+          {},
+          { ...enqueueOptions, cost: typeof cost === 'function' ? cost(...args) : cost },
+        );
+        if (key) {
+          pendingCalls.set(callKey, call);
+          const forget = () => pendingCalls.delete(callKey);
+          call.then(forget, forget);
+        }
+        return call;
+      };
+    },
+    stats: (): QueueStats => ({
+      size: queue.length,
+      pending: jobs.size,
+      inFlight: numInFlight,
+      paused: paused || pausedUntil > clock.now(),
+      enqueued: counters.enqueued,
+      started: counters.started,
+      succeeded: counters.succeeded,
+      failed: counters.failed,
+      retried: counters.retried,
+      dropped: counters.dropped,
+      averageQueuedDuration: counters.started ? counters.totalQueuedDuration / counters.started : 0,
+      averageDuration: counters.finished ? counters.totalDuration / counters.finished : 0,
+      rate,
+    }),
+  };
+  return Object.defineProperties(Object.assign(enqueue, controls), {
+    size: { get: () => queue.length },
+    pending: { get: () => jobs.size },
+    inFlight: { get: () => numInFlight },
+    rate: { get: () => rate },
+    circuit: { get: () => circuit },
+  }) as ThrottledQueue;
+}
+
+export type ThrottledFunctionOptions<Args extends unknown[]> = ThrottledQueueOptions
+& Pick<WrapOptions<Args>, 'priority' | 'cost' | 'key'>;
+
+export type ThrottledFunction<Args extends unknown[], Return> = {
+  (...args: Args): Promise<Return>,
+  /**
+   * The queue that every call is enqueued in.
+   */
+  readonly queue: ThrottledQueue,
+};
+
+/**
+ * Creates a queue for a single function, returning a function with the same arguments that enqueues each call.
+ */
+export function throttledFunction<Args extends unknown[], Return>(
+  fn: WrappableFunction<Args, Return>,
+  options: ThrottledFunctionOptions<Args> = {},
+): ThrottledFunction<Args, Return> {
+  const {
+    priority,
+    cost,
+    key,
+    ...queueOptions
+  } = options;
+  const queue = throttledQueue(queueOptions);
+  return Object.defineProperties(queue.wrap(fn, { priority, cost, key }), {
+    queue: { get: () => queue },
+  }) as ThrottledFunction<Args, Return>;
+}
+
+export type KeyedThrottledQueueOptions = ThrottledQueueOptions & {
+  /**
+   * Options for specific keys, which take precedence over the options shared by every key.
+   */
+  overrides?: Record<string, ThrottledQueueOptions> | ((key: string) => ThrottledQueueOptions | undefined),
+  /**
+   * Duration in milliseconds a key's queue must be idle before it is removed. Defaults to the key's `interval`.
+   */
+  idleTimeout?: number,
+  /**
+   * A limit enforced across all keys, on top of each key's own limit.
+   */
+  global?: Pick<ThrottledQueueOptions, 'maxPerInterval' | 'interval' | 'strategy' | 'burst' | 'store'>,
+};
+
+export type KeyedThrottledQueue = {
+  /**
+   * Enqueues a function in the queue of the given key, returning a promise for its result.
+   */
+  <Return, State extends Record<string, unknown> = Record<string, unknown>>(
+    key: string,
+    fn: QueueItem<State, Return>,
+    state?: State,
+    options?: EnqueueOptions<State>,
+  ): Promise<Return>,
+  /**
+   * The queue of the given key, created if it does not exist yet.
+   */
+  get: (key: string) => ThrottledQueue,
+  /**
+   * Reject every function that is queued or waiting to be retried in any key's queue.
+   */
+  clear: (reason?: unknown) => void,
+  /**
+   * Resolves once every key's queue is idle.
+   */
+  onIdle: () => Promise<void>,
+  /**
+   * Number of keys that currently have a queue.
+   */
+  readonly size: number,
+};
+
+export function keyedThrottledQueue(options: KeyedThrottledQueueOptions = {}): KeyedThrottledQueue {
+  const {
+    overrides = {},
+    idleTimeout,
+    global,
+    ...sharedOptions
+  } = options;
+  const { clock = systemClock } = sharedOptions;
+  if (idleTimeout !== undefined && idleTimeout < 0) {
+    throw new Error('"idleTimeout" cannot be negative.');
+  }
+  let globalLimiter: ThrottleStore | undefined;
+  if (global) {
+    const { maxPerInterval = Infinity, interval = 0, strategy = 'fixed-window' } = global;
+    if (maxPerInterval < 1) {
+      throw new Error('"global.maxPerInterval" must be a positive integer.');
+    }
+    if (interval < 0) {
+      throw new Error('"global.interval" cannot be negative.');
+    }
+    globalLimiter = (global.store ?? memoryStore)({
+      maxPerInterval,
+      interval,
+      strategy,
+      burst: global.burst ?? maxPerInterval,
+    });
+  }
+  const queues = new Map<string, {
+    queue: ThrottledQueue,
+    idleTimeout: number,
+    watching: boolean,
+    evictTimer?: unknown,
+  }>();
+
+  /**
+   * Removes the key's queue once it has been idle for long enough, so that its limit has been restored.
+   */
+  const watch = (key: string) => {
+    const entry = queues.get(key);
+    if (!entry || entry.watching) {
+      return;
+    }
+    entry.watching = true;
+    clock.clearTimeout(entry.evictTimer);
+    void entry.queue.onIdle().then(() => {
+      entry.watching = false;
+      entry.evictTimer = clock.setTimeout(() => {
+        if (!entry.queue.pending && queues.get(key) === entry) {
+          queues.delete(key);
+        }
+      }, entry.idleTimeout);
+    });
+  };
+  const get = (key: string) => {
+    const entry = queues.get(key);
+    if (entry) {
+      return entry.queue;
+    }
+    const keyOptions: ThrottledQueueOptions = {
+      ...sharedOptions,
+      ...(typeof overrides === 'function' ? overrides(key) : overrides[key]),
+    };
+    const queue = throttledQueue({ ...keyOptions, [GLOBAL_LIMITER]: globalLimiter } as WithGlobalLimiter);
+    queues.set(key, {
+      queue,
+      idleTimeout: idleTimeout
+        ?? keyOptions.interval
+        ?? Math.max(0, ...(keyOptions.limits ?? []).map((limit) => limit.interval)),
+      watching: false,
+    });
+    return queue;
+  };
+  const enqueue = <Return, State extends Record<string, unknown> = Record<string, unknown>>(
+    key: string,
+    fn: QueueItem<State, Return>,
+    state?: State,
+    enqueueOptions?: EnqueueOptions<State>,
+  ) => {
+    const promise = get(key)(fn, state, enqueueOptions);
+    watch(key);
+    return promise;
+  };
+  const controls = {
+    get,
+    clear: (reason?: unknown) => {
+      queues.forEach(({ queue }) => queue.clear(reason));
+    },
+    onIdle: async () => {
+      await Promise.all(Array.from(queues.values()).map(({ queue }) => queue.onIdle()));
+    },
+  };
+  return Object.defineProperties(Object.assign(enqueue, controls), {
+    size: { get: () => queues.size },
+  }) as KeyedThrottledQueue;
+}
+
+/**
+ * Any function that can be registered as a handler of a persistent queue.
+ */
+type Handler = QueueItem<never, unknown>;
+
+type HandlerState<H> = H extends (context: QueueItemContext<infer State>) => unknown ? State : never;
+
+type HandlerReturn<H> = H extends (context: never) => infer Return ? Awaited<Return> : never;
+
+export type PersistentThrottledQueueOptions<Handlers extends Record<string, Handler>> = ThrottledQueueOptions & {
+  /**
+   * Where jobs are kept until they settle.
+   */
+  storage: QueueStorage,
+  /**
+   * The functions that execute each named job.
+   */
+  handlers: Handlers,
+  /**
+   * Called when a job could not be saved after a retry, or removed once it settled. Without it, these errors are
+   * ignored, and a job that could not be removed runs again when restored.
+   */
+  onStorageError?: (event: { job: PersistedJob, error: unknown }) => void,
+};
+
+export type PersistentEnqueueOptions = Omit<EnqueueOptions, 'cost'> & {
+  cost?: number,
+};
+
+export type PersistentThrottledQueue<Handlers extends Record<string, Handler>> = {
+  /**
+   * Saves a job with the given handler name and state, then enqueues it, returning a promise for its result.
+   */
+  <Name extends keyof Handlers & string>(
+    name: Name,
+    state?: HandlerState<Handlers[Name]>,
+    options?: PersistentEnqueueOptions,
+  ): Promise<HandlerReturn<Handlers[Name]>>,
+  /**
+   * Enqueues every job left in storage, e.g. by a previous process, resolving with how many were enqueued.
+   */
+  restore: () => Promise<number>,
+  /**
+   * The underlying queue, for its controls.
+   */
+  readonly queue: ThrottledQueue,
+};
+
+export function persistentThrottledQueue<Handlers extends Record<string, Handler>>(
+  options: PersistentThrottledQueueOptions<Handlers>,
+): PersistentThrottledQueue<Handlers> {
+  const {
+    storage,
+    handlers,
+    onStorageError,
+    ...queueOptions
+  } = options;
+  /**
+   * Jobs by their state, so that hooks can find them.
+   */
+  const jobsByState = new WeakMap<object, PersistedJob>();
+  const activeIds = new Set<string>();
+  /**
+   * Storage operations run one at a time, in order.
+   */
+  let writes = Promise.resolve();
+  const write = <T>(operation: () => Promise<T>) => {
+    const result = writes.then(operation);
+    writes = result.then(() => {}, () => {});
+    return result;
+  };
+  /**
+   * Storage errors after a job was saved are reported rather than thrown, since nobody could catch them.
+   */
+  const reportStorageError = (job: PersistedJob) => (error: unknown) => {
+    try {
+      onStorageError?.({ job, error });
+    } catch {
+      /**
+       * Like a failing hook, a failing error handler should not crash the process.
+       */
+    }
+  };
+  const queue = throttledQueue({
+    ...queueOptions,
+    hooks: {
+      ...queueOptions.hooks,
+      onRetry: (event) => {
+        const job = jobsByState.get(event.state);
+        if (job) {
+          write(() => storage.save(job)).catch(reportStorageError(job));
+        }
+        queueOptions.hooks?.onRetry?.(event);
+      },
+    },
+  });
+
+  const run = (job: PersistedJob, signal?: AbortSignal) => {
+    const handler = handlers[job.name] as QueueItem<Record<string, unknown>, unknown>;
+    /**
+     * The queue keeps track of retries in the state's internal state, which is the job's `retries` object.
+     */
+    Object.assign(job.state, { [INTERNAL_STATE]: job.retries });
+    jobsByState.set(job.state, job);
+    activeIds.add(job.id);
+    const result = queue(handler, job.state, { ...job.options, signal });
+    /**
+     * The job's outcome does not depend on whether it could be removed from storage.
+     */
+    return result
+      .then(() => {}, () => {})
+      .then(async () => {
+        activeIds.delete(job.id);
+        await write(() => storage.remove(job.id));
+      })
+      .catch(reportStorageError(job))
+      .then(() => result);
+  };
+  const enqueue = async <Name extends keyof Handlers & string>(
+    name: Name,
+    state?: HandlerState<Handlers[Name]>,
+    enqueueOptions: PersistentEnqueueOptions = {},
+  ) => {
+    if (!Object.prototype.hasOwnProperty.call(handlers, name)) {
+      throw new Error(`"${name}" is not a registered handler.`);
+    }
+    const { signal, ...persistedOptions } = enqueueOptions;
+    const job: PersistedJob = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`,
+      name,
+      state: (state ?? {}) as Record<string, unknown>,
+      options: persistedOptions,
+      retries: {
+        maxRetries: options.maxRetries ?? DEFAULT_RETRY_LIMIT,
+        maxRetriesWithPauses: options.maxRetriesWithPauses ?? DEFAULT_RETRY_LIMIT,
+        attempt: 0,
+        previousWait: 0,
+      },
+    };
+    await write(() => storage.save(job));
+    return run(job, signal) as Promise<HandlerReturn<Handlers[Name]>>;
+  };
+  const restore = async () => {
+    const jobs = (await write(() => storage.load())).filter((job) => !activeIds.has(job.id));
+    jobs.forEach((job) => {
+      if (!Object.prototype.hasOwnProperty.call(handlers, job.name)) {
+        throw new Error(`"${job.name}" is not a registered handler.`);
+      }
+    });
+    jobs.forEach((job) => {
+      /**
+       * Nobody is waiting on restored jobs, so their results are only reported through hooks.
+       */
+      run(job).catch(() => {});
+    });
+    return jobs.length;
+  };
+  return Object.defineProperties(Object.assign(enqueue, { restore }), {
+    queue: { get: () => queue },
+  }) as PersistentThrottledQueue<Handlers>;
+}
+
+export type BatchHandler<Input, Return> = (
+  inputs: Input[],
+  context: Omit<QueueItemContext<unknown>, 'state'>,
+) => Promise<Array<Return | Error>> | Array<Return | Error>;
+
+export type BatchedThrottledQueueOptions<Input, Return> = ThrottledQueueOptions & {
+  /**
+   * Max number of inputs passed to the handler at once.
+   */
+  maxBatchSize: number,
+  /**
+   * Duration in milliseconds to wait for more inputs before a batch that is not full is enqueued. Defaults to 0.
+   */
+  maxBatchWait?: number,
+  /**
+   * Called with each batch of inputs, and returns one result per input in the same order.
+   * An input whose result is an `Error` is rejected with it, or retried if it is a `RetryError`.
+   */
+  handler: BatchHandler<Input, Return>,
+};
+
+export type BatchedThrottledQueue<Input, Return> = {
+  /**
+   * Adds an input to the next batch, returning a promise for its own result.
+   */
+  (input: Input): Promise<Return>,
+  /**
+   * Enqueues the inputs that are waiting for a batch to fill up right away.
+   */
+  flush: () => void,
+  /**
+   * The underlying queue, for its controls.
+   */
+  readonly queue: ThrottledQueue,
+};
+
+type BatchItem<Input, Return> = {
+  input: Input,
+  retries: number,
+  retriesWithPauses: number,
+  previousWait: number,
+  resolve: (result: Return) => void,
+  reject: (err: unknown) => void,
+};
+
+export function batchedThrottledQueue<Input, Return>(
+  options: BatchedThrottledQueueOptions<Input, Return>,
+): BatchedThrottledQueue<Input, Return> {
+  const {
+    maxBatchSize,
+    maxBatchWait = 0,
+    handler,
+    ...queueOptions
+  } = options;
+  const {
+    maxRetries = DEFAULT_RETRY_LIMIT,
+    maxRetriesWithPauses = DEFAULT_RETRY_LIMIT,
+    clock = systemClock,
+  } = queueOptions;
+  if (!(maxBatchSize >= 1)) {
+    throw new Error('"maxBatchSize" must be a positive integer.');
+  }
+  if (maxBatchWait < 0) {
+    throw new Error('"maxBatchWait" cannot be negative.');
+  }
+  const queue = throttledQueue(queueOptions);
+  /**
+   * Inputs are retried with the same backoff as the functions of the queue.
+   */
+  const backoff = getBackoffOptions(queueOptions, getLimits(queueOptions));
+  /**
+   * Inputs that are not part of a batch yet.
+   */
+  const pending: Array<BatchItem<Input, Return>> = [];
+  /**
+   * Batches that are enqueued, but have not taken their inputs yet.
+   */
+  let numQueuedBatches = 0;
+  let waitTimer: unknown;
+
+  /**
+   * Settles an input with its result, returning how long to wait before it joins another batch if it is retried.
+   */
+  const settleItem = (item: BatchItem<Input, Return>, result: Return | Error): number | undefined => {
+    if (!(result instanceof RetryError)) {
+      if (result instanceof Error) {
+        item.reject(result);
+      } else {
+        item.resolve(result);
+      }
+      return undefined;
+    }
+    const pauseQueue = result.options.pauseQueue ?? false;
+    if (pauseQueue ? item.retriesWithPauses++ >= maxRetriesWithPauses : item.retries++ >= maxRetries) {
+      item.reject(result);
+      return undefined;
+    }
+    if (result.options.retryAfter === undefined || result.options.retryAfter === null) {
+      item.previousWait = getBackoff(backoff, item.retries + item.retriesWithPauses, item.previousWait);
+    }
+    const wait = result.options.retryAfter ?? item.previousWait;
+    if (pauseQueue) {
+      /**
+       * A paused queue holds the next batch back by itself.
+       */
+      queue.setRemaining(0, wait);
+      return 0;
+    }
+    return wait;
+  };
+  /**
+   * Enqueues a batch for every full batch of pending inputs, and one for the rest once they have waited long enough,
+   * or right away when flushing.
+   */
+  const schedule = (flush = false) => {
+    const enqueueBatch = () => {
+      numQueuedBatches++;
+      const batch: { items?: Array<BatchItem<Input, Return>> } = {};
+      queue(async ({ state, ...context }) => {
+        /**
+         * Batches take their inputs once they start, so that inputs keep joining them while they wait for a slot.
+         * Retried batches keep the inputs they took.
+         */
+        if (!state.items) {
+          numQueuedBatches--;
+          state.items = pending.splice(0, maxBatchSize);
+          schedule();
+        }
+        const results = await handler(state.items.map(({ input }) => input), context);
+        if (!Array.isArray(results) || results.length !== state.items.length) {
+          throw new Error('The batch handler must return one result per input.');
+        }
+        state.items.forEach((item, index) => {
+          const wait = settleItem(item, results[index]);
+          if (wait !== undefined) {
+            clock.setTimeout(() => {
+              pending.unshift(item);
+              schedule();
+            }, wait);
+          }
+        });
+      }, batch).catch((err) => {
+        if (batch.items) {
+          batch.items.forEach((item) => item.reject(err));
+        } else {
+          /**
+           * The batch was dropped before it started, e.g. when it waited too long, so the inputs it would have
+           * taken are rejected with it.
+           */
+          numQueuedBatches--;
+          pending.splice(0, maxBatchSize).forEach((item) => item.reject(err));
+          schedule();
+        }
+      });
+    };
+    while (pending.length >= (numQueuedBatches + 1) * maxBatchSize) {
+      enqueueBatch();
+    }
+    if (pending.length > numQueuedBatches * maxBatchSize && flush) {
+      enqueueBatch();
+    }
+    if (pending.length <= numQueuedBatches * maxBatchSize) {
+      clock.clearTimeout(waitTimer);
+      waitTimer = undefined;
+    } else if (waitTimer === undefined) {
+      waitTimer = clock.setTimeout(() => {
+        waitTimer = undefined;
+        schedule(true);
+      }, maxBatchWait);
+    }
+  };
+
+  const enqueue = (input: Input) => new Promise<Return>((resolve, reject) => {
+    pending.push({
+      input,
+      retries: 0,
+      retriesWithPauses: 0,
+      previousWait: 0,
+      resolve,
+      reject,
+    });
+    schedule();
+  });
+  return Object.defineProperties(Object.assign(enqueue, { flush: () => schedule(true) }), {
+    queue: { get: () => queue },
+  }) as BatchedThrottledQueue<Input, Return>;
 }